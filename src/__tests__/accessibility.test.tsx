@@ -0,0 +1,315 @@
+/**
+ * Tests for per-cell accessibility, the summary label and the table fallback
+ */
+
+import { AccessibilityInfo } from 'react-native';
+import { fireEvent, render } from '@testing-library/react-native';
+import { Heatmap } from '../index';
+import {
+  calculateHeatmapSummary,
+  formatCellAccessibilityLabel,
+  formatHeatmapSummary,
+} from '../utils';
+import type { HeatmapData, HeatmapProps, ProcessedCellData } from '../types';
+
+// Mock react-native-svg
+jest.mock('react-native-svg', () => {
+  const React = require('react');
+  const { View, Text } = require('react-native');
+
+  const MockSvg = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'svg', ...props }, children);
+  const MockRect = React.forwardRef((props: any, ref: any) =>
+    React.createElement(View, { testID: 'rect', ref, ...props })
+  );
+  const MockText = ({ children, ...props }: any) =>
+    React.createElement(Text, { testID: 'svg-text', ...props }, children);
+  const MockG = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'g', ...props }, children);
+
+  return {
+    __esModule: true,
+    default: MockSvg,
+    Svg: MockSvg,
+    Rect: MockRect,
+    Text: MockText,
+    G: MockG,
+  };
+});
+
+const data: HeatmapData[] = [
+  { date: '2024-03-04', value: 3 },
+  { date: '2024-03-12', value: 7 },
+];
+
+/**
+ * Render two calendar weeks, Sunday 3 March to Saturday 16 March
+ */
+function renderHeatmap(props: Partial<HeatmapProps> = {}) {
+  return render(
+    <Heatmap
+      data={data}
+      startDate={new Date(2024, 2, 3)}
+      endDate={new Date(2024, 2, 16)}
+      animated={false}
+      {...props}
+    />
+  );
+}
+
+/**
+ * Report react-native-gesture-handler as installed, so virtualized heatmaps
+ * clip to their container; the gesture area itself falls back to a View
+ */
+function mockPanGesture() {
+  jest
+    .spyOn(require('../utils/gestures'), 'isGestureHandlerAvailable')
+    .mockReturnValue(true);
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+}
+
+describe('formatCellAccessibilityLabel', () => {
+  const cell: ProcessedCellData = {
+    date: '2025-03-03',
+    value: 1234,
+    x: 0,
+    y: 1,
+    color: '#40c463',
+    isEmpty: false,
+    normalizedValue: 1,
+  };
+
+  it('spells out the date and value', () => {
+    expect(formatCellAccessibilityLabel(cell)).toBe('March 3, 2025: 1,234');
+    expect(formatCellAccessibilityLabel(cell, 'de-DE')).toBe(
+      '3. März 2025: 1.234'
+    );
+  });
+});
+
+describe('Heatmap summary', () => {
+  const cell = (date: string, value: number): ProcessedCellData => ({
+    date,
+    value,
+    x: 0,
+    y: 0,
+    color: '#40c463',
+    isEmpty: value === 0,
+    normalizedValue: 0,
+  });
+
+  // Friday 1 March to Thursday 7 March, after a filler slot
+  const cells = [
+    cell('', 0),
+    cell('2024-03-01', 2),
+    cell('2024-03-02', 5),
+    cell('2024-03-03', 0),
+    cell('2024-03-04', 1),
+    cell('2024-03-05', 1),
+    cell('2024-03-06', 1),
+    cell('2024-03-07', 0),
+  ];
+
+  it('finds the total, highest day, longest streak and busiest weekday', () => {
+    expect(calculateHeatmapSummary(cells)).toEqual({
+      start: '2024-03-01',
+      end: '2024-03-07',
+      total: 10,
+      maxDay: { date: '2024-03-02', value: 5 },
+      longestStreak: { start: '2024-03-04', end: '2024-03-06', length: 3 },
+      busiestWeekday: 6,
+    });
+  });
+
+  it('sums hourly cells into days', () => {
+    const summary = calculateHeatmapSummary([
+      cell('2024-03-01T09', 2),
+      cell('2024-03-01T10', 3),
+      cell('2024-03-02T09', 1),
+    ]);
+
+    expect(summary.maxDay).toEqual({ date: '2024-03-01', value: 5 });
+    expect(summary.longestStreak?.length).toBe(2);
+  });
+
+  it('formats the summary as sentences', () => {
+    expect(formatHeatmapSummary(calculateHeatmapSummary(cells))).toBe(
+      'Mar 1, 2024 – Mar 7, 2024. Total: 10. Highest: 5 on Mar 2, 2024. ' +
+        'Longest streak: 3 days. Busiest weekday: Saturday'
+    );
+    // Without activity there is no highest day, streak or busiest weekday
+    expect(
+      formatHeatmapSummary(calculateHeatmapSummary([cell('2024-03-01', 0)]))
+    ).toBe('Mar 1, 2024 – Mar 1, 2024. Total: 0');
+    expect(formatHeatmapSummary(calculateHeatmapSummary([cell('', 0)]))).toBe(
+      'No data'
+    );
+  });
+});
+
+describe('Cell accessibility', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('exposes each cell with a label', () => {
+    const { getByRole, getAllByTestId } = renderHeatmap({
+      accessibility: { label: 'Activity' },
+    });
+
+    const cell = getAllByTestId('rect')[1]!;
+    expect(cell.props).toMatchObject({
+      accessible: true,
+      accessibilityLabel: 'March 4, 2024: 3',
+      accessibilityRole: 'adjustable',
+    });
+    expect(getByRole('summary').props).toMatchObject({
+      accessible: true,
+      children: 'Activity',
+    });
+  });
+
+  it('reads the summary before the cells', () => {
+    const { getByRole, getAllByTestId, UNSAFE_root } = renderHeatmap();
+    const elements = UNSAFE_root.findAll(
+      (node: { type: unknown; props: { accessible?: boolean } }) =>
+        typeof node.type === 'string' && node.props.accessible === true
+    );
+
+    expect(getByRole('summary').props.children).toMatch(
+      /^Heatmap visualization, Mar 3, 2024/
+    );
+    expect(elements[0]).toBe(getByRole('summary'));
+    expect(elements).toContain(getAllByTestId('rect')[1]);
+  });
+
+  it('uses accessibility.cellLabel', () => {
+    const { getByLabelText } = renderHeatmap({
+      accessibility: {
+        cellLabel: (cell) => `${cell.value} contributions on ${cell.date}`,
+      },
+    });
+
+    expect(getByLabelText('7 contributions on 2024-03-12')).toBeTruthy();
+  });
+
+  it('keeps the heatmap a single element when cells are off', () => {
+    const { getByLabelText, getAllByTestId } = renderHeatmap({
+      accessibility: { label: 'Activity', cells: false },
+    });
+
+    expect(getAllByTestId('rect')[1]!.props.accessible).toBe(false);
+    expect(getByLabelText('Activity').props.accessible).toBe(true);
+  });
+
+  it('moves focus by day and week with accessibility actions', () => {
+    // Cells rendered by the test renderer have no native handles
+    const findNodeHandle = jest
+      .spyOn(require('react-native'), 'findNodeHandle')
+      .mockReturnValue(1);
+    const setAccessibilityFocus = jest
+      .spyOn(AccessibilityInfo, 'setAccessibilityFocus')
+      .mockImplementation(() => {});
+    const { getAllByTestId } = renderHeatmap();
+    const cells = getAllByTestId('rect');
+
+    const act = (index: number, actionName: string) =>
+      fireEvent(cells[index]!, 'accessibilityAction', {
+        nativeEvent: { actionName },
+      });
+
+    act(1, 'increment');
+    act(1, 'nextWeek');
+    // Nothing before the first day
+    act(0, 'decrement');
+
+    expect(setAccessibilityFocus).toHaveBeenCalledTimes(2);
+    findNodeHandle.mockRestore();
+    setAccessibilityFocus.mockRestore();
+  });
+
+  it('only exposes cells in the viewport when virtualized', () => {
+    mockPanGesture();
+    const { getAllByTestId, getByLabelText } = renderHeatmap({
+      startDate: new Date(2024, 0, 1),
+      endDate: new Date(2025, 11, 31),
+      virtualized: true,
+      renderBuffer: 2,
+      accessibility: { label: 'Activity' },
+    });
+
+    fireEvent(getByLabelText('Activity'), 'layout', {
+      nativeEvent: { layout: { width: 200, height: 300 } },
+    });
+
+    // 176px of grid after the weekday labels covers 13 columns
+    const cells = getAllByTestId('rect');
+    const exposed = cells.filter((cell) => cell.props.accessible);
+    // Less the filler slot before Monday 1 January
+    expect(exposed).toHaveLength(13 * 7 - 1);
+    expect(cells.length).toBeGreaterThan(exposed.length);
+  });
+
+  it('scrolls to a cell outside the viewport before focusing it', () => {
+    mockPanGesture();
+    const findNodeHandle = jest
+      .spyOn(require('react-native'), 'findNodeHandle')
+      .mockReturnValue(1);
+    const setAccessibilityFocus = jest
+      .spyOn(AccessibilityInfo, 'setAccessibilityFocus')
+      .mockImplementation(() => {});
+    const onPanChange = jest.fn();
+    const { getByLabelText } = renderHeatmap({
+      startDate: new Date(2024, 0, 1),
+      endDate: new Date(2025, 11, 31),
+      virtualized: true,
+      accessibility: { label: 'Activity' },
+      onPanChange,
+    });
+
+    fireEvent(getByLabelText('Activity'), 'layout', {
+      nativeEvent: { layout: { width: 200, height: 300 } },
+    });
+
+    // Saturday 30 March is in the last column in view
+    fireEvent(getByLabelText('March 30, 2024: 0'), 'accessibilityAction', {
+      nativeEvent: { actionName: 'nextWeek' },
+    });
+
+    expect(onPanChange).toHaveBeenCalledTimes(1);
+    expect(setAccessibilityFocus).toHaveBeenCalledTimes(1);
+    expect(getByLabelText('April 6, 2024: 0').props.accessible).toBe(true);
+
+    findNodeHandle.mockRestore();
+    setAccessibilityFocus.mockRestore();
+  });
+});
+
+describe('Accessible table fallback', () => {
+  it('summarizes the heatmap in the default label', () => {
+    const { getByLabelText } = renderHeatmap();
+
+    expect(
+      getByLabelText(
+        'Heatmap visualization, Mar 3, 2024 – Mar 16, 2024. Total: 10. ' +
+          'Highest: 7 on Mar 12, 2024. Longest streak: 1 day. ' +
+          'Busiest weekday: Tuesday'
+      )
+    ).toBeTruthy();
+  });
+
+  it('lists the values by month in place of the cells', () => {
+    const { getAllByTestId, getByLabelText, getByText } = renderHeatmap({
+      startDate: new Date(2024, 1, 25),
+      accessibility: { label: 'Activity' },
+      accessibleFallback: 'table',
+    });
+
+    expect(getByText('Activity')).toBeTruthy();
+    expect(getByText('February 2024').props.accessibilityRole).toBe('header');
+    expect(getByText('March 2024')).toBeTruthy();
+    expect(getByText('March 4, 2024: 3')).toBeTruthy();
+    expect(getAllByTestId('rect')[1]!.props.accessible).toBe(false);
+    expect(getByLabelText('Activity').props.accessible).toBe(false);
+  });
+});
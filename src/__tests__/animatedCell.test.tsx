@@ -0,0 +1,185 @@
+/**
+ * Tests for animated SVG cells
+ */
+
+import { Animated } from 'react-native';
+import { act, fireEvent, render } from '@testing-library/react-native';
+import { Heatmap } from '../index';
+import AnimatedCell from '../components/AnimatedCell';
+import { DEFAULT_ANIMATION_CONFIG, getAnimatedEntryValues } from '../utils';
+import type { AnimationConfig, ProcessedCellData } from '../types';
+
+// Mock react-native-svg
+jest.mock('react-native-svg', () => {
+  const React = require('react');
+  const { View, Text } = require('react-native');
+
+  const MockSvg = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'svg', ...props }, children);
+  const MockRect = React.forwardRef((props: any, ref: any) =>
+    React.createElement(View, { testID: 'rect', ref, ...props })
+  );
+  const MockText = ({ children, ...props }: any) =>
+    React.createElement(Text, { testID: 'svg-text', ...props }, children);
+  const MockG = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'g', ...props }, children);
+
+  return {
+    __esModule: true,
+    default: MockSvg,
+    Svg: MockSvg,
+    Rect: MockRect,
+    Text: MockText,
+    G: MockG,
+  };
+});
+
+const cell: ProcessedCellData = {
+  date: '2024-03-04',
+  value: 3,
+  x: 1,
+  y: 2,
+  color: '#40c463',
+  isEmpty: false,
+  normalizedValue: 1,
+};
+
+/**
+ * Render a 12px cell at column 1, row 2: its center is (20, 34)
+ */
+function renderCell(animationConfig: Partial<AnimationConfig> = {}) {
+  const utils = render(
+    <AnimatedCell
+      data={cell}
+      index={0}
+      totalCells={1}
+      cellSize={12}
+      cellSpacing={2}
+      cellShape="square"
+      animationConfig={{
+        ...DEFAULT_ANIMATION_CONFIG,
+        duration: 200,
+        ...animationConfig,
+      }}
+      borderColor="#ebedf0"
+      borderWidth={0.5}
+    />
+  );
+
+  return { ...utils, rect: () => utils.getByTestId('rect').props };
+}
+
+describe('getAnimatedEntryValues', () => {
+  it('drives opacity, scale and slide from the progress', () => {
+    const progress = new Animated.Value(0);
+    const value = (animated: any) =>
+      typeof animated === 'number' ? animated : animated.__getValue();
+
+    const scale = getAnimatedEntryValues('scale', progress);
+    const slide = getAnimatedEntryValues('slide', progress);
+    expect(value(scale.opacity)).toBe(0);
+    expect(value(scale.scale)).toBe(0.3);
+    expect(value(slide.translateY)).toBe(20);
+
+    progress.setValue(1);
+    expect(value(scale.scale)).toBe(1);
+    expect(value(slide.translateY)).toBe(0);
+    expect(getAnimatedEntryValues('none', progress)).toEqual({
+      opacity: 1,
+      scale: 1,
+      translateY: 0,
+    });
+  });
+});
+
+describe('AnimatedCell in SVG', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('scales in around its center', () => {
+    const { rect } = renderCell({ entryAnimation: 'scale' });
+
+    expect(rect()).toMatchObject({
+      opacity: 0,
+      scale: 0.3,
+      originX: 20,
+      originY: 34,
+    });
+
+    act(() => jest.advanceTimersByTime(250));
+    expect(rect()).toMatchObject({ opacity: 1, scale: 1 });
+  });
+
+  it('slides in from below its place', () => {
+    const { rect } = renderCell({ entryAnimation: 'slide' });
+    expect(rect()).toMatchObject({ opacity: 0, translateY: 20 });
+
+    act(() => jest.advanceTimersByTime(250));
+    expect(rect()).toMatchObject({ opacity: 1, translateY: 0 });
+  });
+
+  it('springs down while pressed', () => {
+    const { getByTestId, rect } = renderCell({ entryAnimation: 'none' });
+    expect(rect().scale).toBe(1);
+
+    fireEvent(getByTestId('rect'), 'pressIn');
+    act(() => jest.advanceTimersByTime(1000));
+    expect(rect().scale).toBeCloseTo(0.95);
+
+    fireEvent(getByTestId('rect'), 'pressOut');
+    act(() => jest.advanceTimersByTime(1000));
+    expect(rect().scale).toBeCloseTo(1);
+  });
+
+  it('takes keyboard focus', () => {
+    const { rect, rerender } = renderCell();
+    expect(rect()).toMatchObject({ focusable: true, tabIndex: 0 });
+
+    rerender(
+      <AnimatedCell
+        data={cell}
+        index={0}
+        totalCells={1}
+        cellSize={12}
+        cellSpacing={2}
+        cellShape="square"
+        borderColor="#ebedf0"
+        borderWidth={0.5}
+        tabStop={false}
+      />
+    );
+    expect(rect()).toMatchObject({ focusable: true, tabIndex: -1 });
+  });
+});
+
+describe('Heatmap stagger order', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('sweeps the entry across the weeks', () => {
+    // Two calendar weeks, Sunday 3 March to Saturday 16 March
+    const { UNSAFE_getAllByType } = render(
+      <Heatmap
+        data={[{ date: '2024-03-04', value: 3 }]}
+        startDate={new Date(2024, 2, 3)}
+        endDate={new Date(2024, 2, 16)}
+        animation={{ staggerOrder: 'column', staggerDelay: 40 }}
+      />
+    );
+
+    const delays = UNSAFE_getAllByType(AnimatedCell).map(
+      (animatedCell) => animatedCell.props.entryTiming.delay
+    );
+    expect(delays).toEqual([...Array(7).fill(0), ...Array(7).fill(40)]);
+  });
+});
@@ -7,10 +7,13 @@ import {
   calculateStaggerDelay,
   getEntryAnimationStyle,
   createCellAnimationSequence,
+  createStaggerSchedule,
+  MAX_STAGGER_SPREAD,
   mergeAnimationConfig,
   isAnimationSupported,
   getOptimalAnimationDuration,
 } from '../utils/animation';
+import type { AnimationConfig, ProcessedCellData } from '../types';
 
 describe('Animation Utilities', () => {
   describe('calculateStaggerDelay', () => {
@@ -81,6 +84,92 @@ describe('Animation Utilities', () => {
     });
   });
 
+  describe('createStaggerSchedule', () => {
+    // Three weeks of two days each
+    const cells: ProcessedCellData[] = [0, 1, 2].flatMap((x) =>
+      [0, 1].map((y) => ({
+        date: `2024-03-0${x * 2 + y + 1}`,
+        value: (x * 2 + y) % 3,
+        x,
+        y,
+        color: '#40c463',
+        isEmpty: false,
+        normalizedValue: 0,
+      }))
+    );
+    const delays = (config: Partial<AnimationConfig>) =>
+      createStaggerSchedule(cells, {
+        ...DEFAULT_ANIMATION_CONFIG,
+        staggerDelay: 10,
+        ...config,
+      }).map(({ delay }) => delay);
+
+    it('staggers cells by index without wrapping', () => {
+      expect(delays({})).toEqual([0, 10, 20, 30, 40, 50]);
+      expect(delays({ staggerDelay: 200 }).at(-1)).toBe(MAX_STAGGER_SPREAD);
+    });
+
+    it('sweeps whole columns and rows together', () => {
+      expect(delays({ staggerOrder: 'column' })).toEqual([
+        0, 0, 10, 10, 20, 20,
+      ]);
+      expect(delays({ staggerOrder: 'row' })).toEqual([0, 10, 0, 10, 0, 10]);
+    });
+
+    it('spreads out from the radial origin', () => {
+      const radial = delays({
+        staggerOrder: 'radial',
+        staggerOrigin: { column: 1, row: 0 },
+      });
+
+      expect(radial[2]).toBe(0);
+      expect(radial[3]).toBeLessThan(radial[1]!);
+      expect(radial[1]).toBe(radial[5]);
+    });
+
+    it('orders by value or a custom rank', () => {
+      expect(delays({ staggerOrder: 'value' })).toEqual([0, 10, 20, 0, 10, 20]);
+      expect(
+        delays({ staggerOrder: (cell) => -Number(cell.date.slice(-1)) })
+      ).toEqual([50, 40, 30, 20, 10, 0]);
+    });
+
+    it('spaces ranks evenly however skewed their values are', () => {
+      const skewed = cells.map((cell, index) => ({
+        ...cell,
+        value: [1, 2, 3, 4, 5, 1000][index]!,
+      }));
+      const schedule = createStaggerSchedule(skewed, {
+        ...DEFAULT_ANIMATION_CONFIG,
+        staggerDelay: 10,
+        staggerOrder: 'value',
+      });
+
+      expect(schedule.map(({ delay }) => delay)).toEqual([
+        0, 10, 20, 30, 40, 50,
+      ]);
+    });
+
+    it('shortens durations for large grids', () => {
+      const manyCells = Array.from({ length: 600 }, (_, index) => ({
+        ...cells[0]!,
+        x: index,
+      }));
+      const schedule = createStaggerSchedule(manyCells, {
+        ...DEFAULT_ANIMATION_CONFIG,
+        staggerOrder: 'column',
+      });
+
+      expect(schedule[0]).toEqual({ delay: 0, duration: 150 });
+      expect(schedule.at(-1)!.delay).toBe(MAX_STAGGER_SPREAD);
+    });
+
+    it('starts every cell at once without a stagger', () => {
+      expect(delays({ staggerDelay: 0 })).toEqual([0, 0, 0, 0, 0, 0]);
+      expect(delays({ entryAnimation: 'none' })).toEqual([0, 0, 0, 0, 0, 0]);
+    });
+  });
+
   describe('mergeAnimationConfig', () => {
     it('should merge animation configurations', () => {
       const userConfig = { duration: 500, entryAnimation: 'scale' as const };
@@ -90,6 +179,32 @@ describe('Animation Utilities', () => {
       expect(merged.entryAnimation).toBe('scale');
       expect(merged.enabled).toBe(DEFAULT_ANIMATION_CONFIG.enabled);
     });
+
+    it('should drop entry animations and press springs under reduce motion', () => {
+      const merged = mergeAnimationConfig(
+        DEFAULT_ANIMATION_CONFIG,
+        { entryAnimation: 'scale' },
+        true
+      );
+
+      expect(merged).toMatchObject({
+        enabled: true,
+        entryAnimation: 'none',
+        staggerDelay: 0,
+        pressFeedback: false,
+      });
+    });
+
+    it('should keep animations when respectReducedMotion is false', () => {
+      const merged = mergeAnimationConfig(
+        DEFAULT_ANIMATION_CONFIG,
+        { entryAnimation: 'scale', respectReducedMotion: false },
+        true
+      );
+
+      expect(merged.entryAnimation).toBe('scale');
+      expect(merged.pressFeedback).toBe(true);
+    });
   });
 
   describe('isAnimationSupported', () => {
@@ -0,0 +1,144 @@
+/**
+ * Tests for date bucketing utilities
+ */
+
+import {
+  getZonedDateParts,
+  isDateOnly,
+  toDateKey,
+  toHourKey,
+  formatHourKey,
+  addDaysToKey,
+  generateDateKeys,
+  getWeekdayIndex,
+  getStartOfWeekKey,
+  getWeekNumberForKey,
+} from '../utils/dates';
+
+describe('Date Bucketing Utilities', () => {
+  describe('getZonedDateParts', () => {
+    it('reads calendar fields in an IANA time zone', () => {
+      const instant = new Date('2024-01-15T23:30:00Z');
+
+      expect(getZonedDateParts(instant, 'Asia/Tokyo')).toEqual({
+        year: 2024,
+        month: 0,
+        day: 16,
+        hour: 8,
+        minute: 30,
+      });
+      expect(getZonedDateParts(instant, 'America/Los_Angeles')).toMatchObject({
+        day: 15,
+        hour: 15,
+      });
+    });
+
+    it('reports midnight as hour 0', () => {
+      const midnight = new Date('2024-01-15T00:00:00Z');
+      expect(getZonedDateParts(midnight, 'UTC').hour).toBe(0);
+    });
+  });
+
+  describe('isDateOnly', () => {
+    it('detects date-only strings', () => {
+      expect(isDateOnly('2024-01-15')).toBe(true);
+      expect(isDateOnly('2024-01-15T10:00:00Z')).toBe(false);
+      expect(isDateOnly(1705312800000)).toBe(false);
+    });
+  });
+
+  describe('toDateKey', () => {
+    it('keeps date-only strings as they are', () => {
+      expect(toDateKey('2024-01-15', 'Pacific/Kiritimati')).toBe('2024-01-15');
+    });
+
+    it('buckets ISO datetimes and epoch milliseconds by time zone', () => {
+      const iso = '2024-01-15T22:00:00Z';
+      expect(toDateKey(iso, 'UTC')).toBe('2024-01-15');
+      expect(toDateKey(iso, 'Europe/Berlin')).toBe('2024-01-15');
+      expect(toDateKey(iso, 'Asia/Kolkata')).toBe('2024-01-16');
+      expect(toDateKey(Date.parse(iso), 'Asia/Kolkata')).toBe('2024-01-16');
+    });
+  });
+
+  describe('toHourKey', () => {
+    it('buckets timestamps into hour slots', () => {
+      expect(toHourKey('2024-01-15T10:45:00Z', 'UTC')).toBe(
+        '2024-01-15T10:00:00'
+      );
+      expect(toHourKey('2024-01-15T10:45:00Z', 'Asia/Kolkata')).toBe(
+        '2024-01-15T16:00:00'
+      );
+    });
+
+    it('maps date-only strings to the first hour', () => {
+      expect(toHourKey('2024-01-15')).toBe('2024-01-15T00:00:00');
+    });
+
+    it('follows daylight saving time changes', () => {
+      // US DST starts 2024-03-10 at 02:00 local time
+      expect(toHourKey('2024-03-10T06:30:00Z', 'America/New_York')).toBe(
+        '2024-03-10T01:00:00'
+      );
+      expect(toHourKey('2024-03-10T07:30:00Z', 'America/New_York')).toBe(
+        '2024-03-10T03:00:00'
+      );
+    });
+  });
+
+  describe('day key arithmetic', () => {
+    it('formats hour keys', () => {
+      expect(formatHourKey('2024-01-15', 7)).toBe('2024-01-15T07:00:00');
+    });
+
+    it('adds days across month and year boundaries', () => {
+      expect(addDaysToKey('2024-02-28', 1)).toBe('2024-02-29');
+      expect(addDaysToKey('2024-12-31', 1)).toBe('2025-01-01');
+      expect(addDaysToKey('2024-03-01', -1)).toBe('2024-02-29');
+    });
+
+    it('generates inclusive day key ranges', () => {
+      expect(generateDateKeys('2024-03-09', '2024-03-11')).toEqual([
+        '2024-03-09',
+        '2024-03-10',
+        '2024-03-11',
+      ]);
+      expect(generateDateKeys('2024-03-11', '2024-03-09')).toEqual([]);
+    });
+  });
+
+  describe('week helpers', () => {
+    it('positions days within a week starting on any weekday', () => {
+      // 2024-01-07 is a Sunday
+      expect(getWeekdayIndex('2024-01-07')).toBe(0);
+      expect(getWeekdayIndex('2024-01-07', 1)).toBe(6);
+      expect(getWeekdayIndex('2024-01-08', 1)).toBe(0);
+      expect(getWeekdayIndex('2024-01-13', 6)).toBe(0);
+    });
+
+    it('finds the start of the week', () => {
+      expect(getStartOfWeekKey('2024-01-10')).toBe('2024-01-07');
+      expect(getStartOfWeekKey('2024-01-10', 1)).toBe('2024-01-08');
+      expect(getStartOfWeekKey('2024-01-07', 1)).toBe('2024-01-01');
+      expect(getStartOfWeekKey('2024-03-01', 1)).toBe('2024-02-26');
+    });
+
+    it('numbers ISO-8601 weeks across year boundaries', () => {
+      expect(getWeekNumberForKey('2024-01-01', 'iso')).toBe(1);
+      expect(getWeekNumberForKey('2024-12-30', 'iso')).toBe(1);
+      expect(getWeekNumberForKey('2021-01-03', 'iso')).toBe(53);
+      expect(getWeekNumberForKey('2020-12-31', 'iso')).toBe(53);
+      expect(getWeekNumberForKey('2023-01-01', 'iso')).toBe(52);
+      expect(getWeekNumberForKey('2023-01-02', 'iso')).toBe(1);
+    });
+
+    it('numbers US weeks from the week holding 1 January', () => {
+      expect(getWeekNumberForKey('2023-01-01')).toBe(1);
+      expect(getWeekNumberForKey('2023-01-08')).toBe(2);
+      expect(getWeekNumberForKey('2024-12-31')).toBe(53);
+      // Monday-start weeks: 2023-01-01 is a Sunday, closing week 1
+      expect(getWeekNumberForKey('2023-01-01', 'us', 1)).toBe(1);
+      expect(getWeekNumberForKey('2023-01-02', 'us', 1)).toBe(2);
+    });
+  });
+});
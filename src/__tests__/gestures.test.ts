@@ -11,6 +11,10 @@ import {
   calculatePanBounds,
   clampValue,
   calculateGestureTransform,
+  clampGestureTransform,
+  zoomAroundPoint,
+  applyGestureTransform,
+  IDENTITY_TRANSFORM,
   mergeGestureConfig,
   DoubleTapDetector,
   calculateOptimalZoom,
@@ -114,6 +118,62 @@ describe('Gesture Utilities', () => {
     });
   });
 
+  describe('clampGestureTransform', () => {
+    const size = { width: 200, height: 100 };
+
+    it('should clamp scale to the zoom limits and translation to the pan bounds', () => {
+      const transform = clampGestureTransform(
+        { translateX: -500, translateY: 20, scale: 10 },
+        size,
+        size,
+        { ...DEFAULT_GESTURE_CONFIG, maxZoom: 2 }
+      );
+
+      // At 2x the content may move up to one container size up and left
+      expect(transform).toEqual({ translateX: -200, translateY: 0, scale: 2 });
+    });
+
+    it('should keep zoomed-out content inside the container', () => {
+      const transform = clampGestureTransform(
+        { translateX: 150, translateY: -10, scale: 0.5 },
+        size,
+        size,
+        DEFAULT_GESTURE_CONFIG
+      );
+
+      expect(transform).toEqual({ translateX: 100, translateY: 0, scale: 0.5 });
+    });
+  });
+
+  describe('zoomAroundPoint', () => {
+    it('should keep the focal point in place', () => {
+      const focal = { x: 40, y: 30 };
+      const zoomed = zoomAroundPoint(
+        { translateX: -10, translateY: 0, scale: 1 },
+        2,
+        focal
+      );
+
+      // The content point under the focal point before zooming
+      const contentPoint = { x: 50, y: 30 };
+      expect(applyGestureTransform(contentPoint, zoomed)).toEqual(focal);
+    });
+  });
+
+  describe('applyGestureTransform', () => {
+    it('should scale then translate content points', () => {
+      expect(
+        applyGestureTransform(
+          { x: 10, y: 5 },
+          { translateX: -4, translateY: 3, scale: 2 }
+        )
+      ).toEqual({ x: 16, y: 13 });
+      expect(
+        applyGestureTransform({ x: 10, y: 5 }, IDENTITY_TRANSFORM)
+      ).toEqual({ x: 10, y: 5 });
+    });
+  });
+
   describe('mergeGestureConfig', () => {
     it('should merge gesture configurations', () => {
       const userConfig = { pan: false, zoom: true, minZoom: 1.0 };
@@ -0,0 +1,376 @@
+/**
+ * Tests for pan, pinch-zoom, brushing and viewport virtualization on the
+ * Heatmap
+ */
+
+import { StyleSheet, View as RNView } from 'react-native';
+import { act, fireEvent, render } from '@testing-library/react-native';
+import { Heatmap } from '../index';
+import Tooltip from '../components/Tooltip';
+import { DEFAULT_THEME } from '../types';
+import type { HeatmapData } from '../types';
+
+// Mock react-native-svg
+jest.mock('react-native-svg', () => {
+  const React = require('react');
+  const { View, Text } = require('react-native');
+
+  const MockSvg = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'svg', ...props }, children);
+  const MockRect = (props: any) =>
+    React.createElement(View, { testID: 'rect', ...props });
+  const MockText = ({ children, ...props }: any) =>
+    React.createElement(Text, { testID: 'svg-text', ...props }, children);
+  const MockG = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'g', ...props }, children);
+
+  return {
+    __esModule: true,
+    default: MockSvg,
+    Svg: MockSvg,
+    Rect: MockRect,
+    Text: MockText,
+    G: MockG,
+  };
+});
+
+// Mock react-native-gesture-handler, recording every gesture built
+jest.mock(
+  'react-native-gesture-handler',
+  () => {
+    const { View } = require('react-native');
+    const gestures: any[] = [];
+
+    const createGesture = (type: string) => {
+      const gesture: any = { type, handlers: {} };
+      const chain = (name: string) => (handler?: any) => {
+        gesture.handlers[name] = handler;
+        return gesture;
+      };
+      gesture.onStart = chain('onStart');
+      gesture.onUpdate = chain('onUpdate');
+      gesture.onEnd = chain('onEnd');
+      gesture.runOnJS = chain('runOnJS');
+      gesture.withRef = chain('withRef');
+      gesture.direction = chain('direction');
+      // Long-press pans are brushes
+      gesture.activateAfterLongPress = (delay: number) => {
+        gesture.type = 'brush';
+        return chain('activateAfterLongPress')(delay);
+      };
+      gestures.push(gesture);
+      return gesture;
+    };
+
+    return {
+      __gestures: gestures,
+      GestureHandlerRootView: View,
+      GestureDetector: ({ children }: any) => children,
+      Gesture: {
+        Pan: () => createGesture('pan'),
+        Pinch: () => createGesture('pinch'),
+        Fling: () => createGesture('fling'),
+        Simultaneous: (...composed: any[]) => composed,
+        Exclusive: (...composed: any[]) => composed,
+        DIRECTIONS: { UP: 1, DOWN: 2, LEFT: 4, RIGHT: 8 },
+      },
+    };
+  },
+  { virtual: true }
+);
+
+const recordedGestures: any[] =
+  require('react-native-gesture-handler').__gestures;
+
+/**
+ * Run a gesture update and end on the most recently rendered gesture
+ */
+function runGesture(type: 'pan' | 'pinch' | 'brush', events: object[]) {
+  const gesture = [...recordedGestures]
+    .reverse()
+    .find((candidate) => candidate.type === type);
+
+  act(() => {
+    gesture.handlers.onStart?.(events[0]);
+    events.forEach((event) => gesture.handlers.onUpdate(event));
+    gesture.handlers.onEnd();
+  });
+}
+
+const sampleData: HeatmapData[] = [
+  { date: '2024-03-04', value: 3 },
+  { date: '2024-03-12', value: 7 },
+];
+
+describe('Heatmap gestures', () => {
+  const startDate = new Date(2024, 2, 3);
+  const endDate = new Date(2024, 2, 16);
+
+  beforeEach(() => {
+    recordedGestures.length = 0;
+  });
+
+  it('zooms around the pinch focal point within maxZoom', () => {
+    const onZoomChange = jest.fn();
+    const onPanChange = jest.fn();
+
+    const { UNSAFE_getAllByType } = render(
+      <Heatmap
+        data={sampleData}
+        startDate={startDate}
+        endDate={endDate}
+        animated={false}
+        gesture={{ maxZoom: 2 }}
+        onZoomChange={onZoomChange}
+        onPanChange={onPanChange}
+      />
+    );
+
+    runGesture('pinch', [
+      { scale: 1.5, focalX: 10, focalY: 10 },
+      { scale: 4, focalX: 10, focalY: 10 },
+    ]);
+
+    expect(onZoomChange.mock.calls).toEqual([[1.5], [2]]);
+    expect(onPanChange).toHaveBeenLastCalledWith({ x: -10, y: -10 });
+
+    const transformed = UNSAFE_getAllByType(RNView).find(
+      (view) => StyleSheet.flatten(view.props.style)?.transform
+    );
+    expect(StyleSheet.flatten(transformed?.props.style).transform).toEqual([
+      { translateX: -10 },
+      { translateY: -10 },
+      { scale: 2 },
+    ]);
+  });
+
+  it('pans within the bounds of the zoomed content', () => {
+    const onPanChange = jest.fn();
+
+    render(
+      <Heatmap
+        data={sampleData}
+        startDate={startDate}
+        endDate={endDate}
+        animated={false}
+        onPanChange={onPanChange}
+      />
+    );
+
+    // Unzoomed content already fills the gesture area
+    runGesture('pan', [{ translationX: -30, translationY: 0 }]);
+    expect(onPanChange).not.toHaveBeenCalled();
+
+    runGesture('pinch', [{ scale: 2, focalX: 0, focalY: 0 }]);
+    runGesture('pan', [
+      { translationX: -5, translationY: -5 },
+      { translationX: -20, translationY: -10 },
+    ]);
+    expect(onPanChange).toHaveBeenLastCalledWith({ x: -20, y: -10 });
+
+    // Deltas restart with each gesture
+    runGesture('pan', [{ translationX: 5, translationY: 0 }]);
+    expect(onPanChange).toHaveBeenLastCalledWith({ x: -15, y: -10 });
+  });
+
+  it('positions tooltips over the transformed cell', () => {
+    const { getAllByTestId, UNSAFE_getByType } = render(
+      <Heatmap
+        data={sampleData}
+        startDate={startDate}
+        endDate={endDate}
+        animated={false}
+        showTooltip
+      />
+    );
+
+    runGesture('pinch', [{ scale: 2, focalX: 0, focalY: 0 }]);
+    runGesture('pan', [{ translationX: -20, translationY: -10 }]);
+
+    // Second column, first row
+    fireEvent(getAllByTestId('rect')[7]!, 'longPress');
+
+    const labelPadding = DEFAULT_THEME.typography.fontSize + 10;
+    const tooltip = UNSAFE_getByType(Tooltip);
+    expect(tooltip.props.cellSize).toBe(24);
+    expect(tooltip.props.cellPosition).toEqual({
+      x: (14 + labelPadding) * 2 - 20,
+      y: labelPadding * 2 - 10,
+    });
+  });
+});
+
+describe('Heatmap virtualization', () => {
+  const startDate = new Date(2024, 0, 1);
+  const endDate = new Date(2025, 11, 31);
+
+  beforeEach(() => {
+    recordedGestures.length = 0;
+  });
+
+  const renderVirtualized = (props: object = {}) => {
+    const utils = render(
+      <Heatmap
+        data={sampleData}
+        startDate={startDate}
+        endDate={endDate}
+        animated={false}
+        virtualized
+        renderBuffer={2}
+        accessibility={{ label: 'Activity' }}
+        {...props}
+      />
+    );
+
+    fireEvent(utils.getByLabelText('Activity'), 'layout', {
+      nativeEvent: { layout: { width: 200, height: 300 } },
+    });
+
+    return utils;
+  };
+
+  it('renders only the cells and labels near the viewport', () => {
+    const { getAllByTestId, getAllByText } = renderVirtualized();
+
+    // 24px of weekday labels, 200px of viewport, two columns of buffer
+    const columns = Math.floor((200 - 24 + 2 * 14) / 14) + 1;
+    const cells = getAllByTestId('rect');
+    expect(cells).toHaveLength(columns * 7 - 1);
+    expect(Math.max(...cells.map((cell) => cell.props.x))).toBe(
+      (columns - 1) * 14
+    );
+
+    // Only the first of the two January labels is in view
+    expect(getAllByText('Jan')).toHaveLength(1);
+  });
+
+  it('moves the rendered window when the content is panned', () => {
+    const { getAllByTestId } = renderVirtualized();
+
+    runGesture('pan', [{ translationX: -700, translationY: 0 }]);
+
+    const offsets = getAllByTestId('rect').map((cell) => cell.props.x);
+    expect(Math.min(...offsets)).toBeGreaterThan(0);
+    expect(Math.max(...offsets)).toBeGreaterThan(700);
+  });
+
+  it('does not clip to the container without a pan', () => {
+    const { getAllByTestId, getAllByText } = renderVirtualized({
+      panEnabled: false,
+    });
+
+    // Every day of 2024 and 2025
+    expect(getAllByTestId('rect')).toHaveLength(731);
+    expect(getAllByText('Jan')).toHaveLength(2);
+  });
+
+  it('follows the scroll offset of a parent ScrollView', () => {
+    const { getAllByTestId } = renderVirtualized({
+      scrollOffset: { x: 700, y: 0, width: 200, height: 300 },
+    });
+
+    const offsets = getAllByTestId('rect').map((cell) => cell.props.x);
+    expect(Math.min(...offsets)).toBeGreaterThan(600);
+    expect(Math.max(...offsets)).toBeLessThan(1000);
+  });
+
+  it('culls weekday labels outside the viewport', () => {
+    const padding = DEFAULT_THEME.typography.fontSize + 10;
+    // Saturday, with a buffer of two rows back to Wednesday
+    const { getAllByText, getByText, queryByText } = renderVirtualized({
+      scrollOffset: { x: 0, y: padding + 6 * 14, width: 200, height: 14 },
+    });
+
+    expect(queryByText('M')).toBeNull();
+    expect(getByText('W')).toBeTruthy();
+    expect(getAllByText('T')).toHaveLength(1);
+    expect(getAllByText('S')).toHaveLength(1);
+  });
+});
+
+describe('Heatmap brushing', () => {
+  // Two calendar columns, Sunday 3 March to Saturday 16 March
+  const startDate = new Date(2024, 2, 3);
+  const endDate = new Date(2024, 2, 16);
+  // Weekday and month labels pad the grid by fontSize + 10
+  const padding = DEFAULT_THEME.typography.fontSize + 10;
+
+  beforeEach(() => {
+    recordedGestures.length = 0;
+  });
+
+  it('reports and outlines the cells under the brush', () => {
+    const onBrushChange = jest.fn();
+    const onBrushEnd = jest.fn();
+
+    const { getByTestId } = render(
+      <Heatmap
+        data={sampleData}
+        startDate={startDate}
+        endDate={endDate}
+        animated={false}
+        brushEnabled
+        onBrushChange={onBrushChange}
+        onBrushEnd={onBrushEnd}
+      />
+    );
+
+    // From the first cell to the third row of the second column
+    runGesture('brush', [
+      { x: padding + 1, y: padding + 1 },
+      { x: padding + 15, y: padding + 30 },
+    ]);
+
+    const dates = [
+      '2024-03-03',
+      '2024-03-04',
+      '2024-03-05',
+      '2024-03-10',
+      '2024-03-11',
+      '2024-03-12',
+    ];
+    expect(onBrushChange).toHaveBeenCalledTimes(2);
+    expect(
+      onBrushChange.mock.calls[1][0].map((cell: any) => cell.date)
+    ).toEqual(dates);
+    expect(onBrushEnd.mock.calls[0][0].map((cell: any) => cell.date)).toEqual(
+      dates
+    );
+    expect(getByTestId('brush').props).toMatchObject({
+      x: 0,
+      y: 0,
+      width: 26,
+      height: 40,
+    });
+  });
+
+  it('follows the zoomed content and clears on tap', () => {
+    const onBrushEnd = jest.fn();
+
+    const { getAllByTestId, queryByTestId } = render(
+      <Heatmap
+        data={sampleData}
+        startDate={startDate}
+        endDate={endDate}
+        animated={false}
+        brushEnabled
+        onBrushEnd={onBrushEnd}
+      />
+    );
+
+    runGesture('pinch', [{ scale: 2, focalX: 0, focalY: 0 }]);
+    runGesture('brush', [
+      { x: (padding + 15) * 2, y: (padding + 1) * 2 },
+      { x: (padding + 15) * 2, y: (padding + 15) * 2 },
+    ]);
+
+    expect(onBrushEnd.mock.calls[0][0].map((cell: any) => cell.date)).toEqual([
+      '2024-03-10',
+      '2024-03-11',
+    ]);
+    expect(queryByTestId('brush')).toBeTruthy();
+
+    fireEvent.press(getAllByTestId('rect')[0]!);
+    expect(queryByTestId('brush')).toBeNull();
+  });
+});
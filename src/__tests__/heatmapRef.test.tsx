@@ -0,0 +1,208 @@
+/**
+ * Tests for the imperative Heatmap ref handle
+ */
+
+import { createRef } from 'react';
+import { act, fireEvent, render } from '@testing-library/react-native';
+import { Heatmap } from '../index';
+import Tooltip from '../components/Tooltip';
+import { DEFAULT_THEME } from '../types';
+import type { HeatmapData, HeatmapRef } from '../types';
+
+// Mock react-native-svg
+jest.mock('react-native-svg', () => {
+  const React = require('react');
+  const { View, Text } = require('react-native');
+
+  const MockSvg = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'svg', ...props }, children);
+  const MockRect = (props: any) =>
+    React.createElement(View, { testID: 'rect', ...props });
+  const MockText = ({ children, ...props }: any) =>
+    React.createElement(Text, { testID: 'svg-text', ...props }, children);
+  const MockG = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'g', ...props }, children);
+
+  return {
+    __esModule: true,
+    default: MockSvg,
+    Svg: MockSvg,
+    Rect: MockRect,
+    Text: MockText,
+    G: MockG,
+  };
+});
+
+const sampleData: HeatmapData[] = [
+  { date: '2024-03-04', value: 3 },
+  { date: '2024-03-12', value: 7 },
+];
+
+// Weekday and month labels pad the grid by fontSize + 10
+const padding = DEFAULT_THEME.typography.fontSize + 10;
+
+/**
+ * Report react-native-gesture-handler as installed, so virtualized heatmaps
+ * clip to their container; the gesture area itself falls back to a View
+ */
+function mockPanGesture() {
+  jest
+    .spyOn(require('../utils/gestures'), 'isGestureHandlerAvailable')
+    .mockReturnValue(true);
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+}
+
+describe('Heatmap ref', () => {
+  // Two calendar columns, Sunday 3 March to Saturday 16 March
+  const startDate = new Date(2024, 2, 3);
+  const endDate = new Date(2024, 2, 16);
+
+  const renderWithRef = (props: object = {}) => {
+    const ref = createRef<HeatmapRef>();
+    const utils = render(
+      <Heatmap
+        ref={ref}
+        data={sampleData}
+        startDate={startDate}
+        endDate={endDate}
+        animated={false}
+        {...props}
+      />
+    );
+    return { ref, ...utils };
+  };
+
+  it('finds the cell under a point', () => {
+    const { ref } = renderWithRef();
+
+    expect(ref.current?.getCellAt(padding + 15, padding + 1)?.date).toBe(
+      '2024-03-10'
+    );
+    // The spacing between the two columns
+    expect(ref.current?.getCellAt(padding + 13, padding + 1)).toBeNull();
+  });
+
+  it('shows and hides the tooltip for a date', () => {
+    const { ref, UNSAFE_queryByType } = renderWithRef();
+
+    act(() => ref.current?.showTooltip(new Date(2024, 2, 12)));
+    expect(UNSAFE_queryByType(Tooltip)?.props.data.date).toBe('2024-03-12');
+
+    act(() => ref.current?.hideTooltip());
+    expect(UNSAFE_queryByType(Tooltip)).toBeNull();
+  });
+
+  it('zooms around the viewport center and resets', () => {
+    const onZoomChange = jest.fn();
+    const { ref } = renderWithRef({ onZoomChange });
+
+    act(() => ref.current?.zoomTo(2, { animated: false }));
+    expect(onZoomChange).toHaveBeenLastCalledWith(2);
+    // The bottom rows are zoomed out of view
+    expect(ref.current?.getVisibleDateRange()).toEqual({
+      start: '2024-03-03',
+      end: '2024-03-14',
+    });
+    // The first row has moved above the top-left corner
+    expect(ref.current?.getCellAt(padding + 1, padding + 1)?.date).toBe(
+      '2024-03-04'
+    );
+
+    act(() => ref.current?.resetZoom({ animated: false }));
+    expect(onZoomChange).toHaveBeenLastCalledWith(1);
+  });
+
+  it('clears the selection and a pending range', () => {
+    const onSelectionChange = jest.fn();
+    const { ref, getAllByTestId } = renderWithRef({
+      selectionMode: 'range',
+      onSelectionChange,
+    });
+    const selected = () =>
+      getAllByTestId('rect').filter(
+        (cell) => cell.props.stroke === DEFAULT_THEME.colors.selection
+      );
+
+    fireEvent.press(getAllByTestId('rect')[2]!);
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['2024-03-05']);
+    expect(selected()).toHaveLength(1);
+
+    act(() => ref.current?.clearSelection());
+    expect(onSelectionChange).toHaveBeenLastCalledWith([]);
+    expect(selected()).toHaveLength(0);
+
+    // The next tap starts a new range instead of ending the cleared one
+    fireEvent.press(getAllByTestId('rect')[4]!);
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['2024-03-07']);
+    expect(selected()).toHaveLength(1);
+  });
+
+  describe('when virtualized', () => {
+    beforeEach(mockPanGesture);
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const renderVirtualized = (props: object = {}) => {
+      const utils = renderWithRef({
+        startDate: new Date(2024, 0, 1),
+        endDate: new Date(2025, 11, 31),
+        virtualized: true,
+        accessibility: { label: 'Activity' },
+        ...props,
+      });
+
+      fireEvent(utils.getByLabelText('Activity'), 'layout', {
+        nativeEvent: { layout: { width: 200, height: 300 } },
+      });
+
+      return utils;
+    };
+
+    it('reports the dates in the viewport', () => {
+      const { ref } = renderVirtualized();
+
+      // 176px of grid after the weekday labels covers 13 columns
+      expect(ref.current?.getVisibleDateRange()).toEqual({
+        start: '2024-01-01',
+        end: '2024-03-30',
+      });
+    });
+
+    // 15 June 2025 is a Sunday, in the first row
+    const centerY = padding + 6;
+
+    it('scrolls a date into the middle of the viewport', () => {
+      const { ref } = renderVirtualized();
+
+      act(() =>
+        ref.current?.scrollToDate(new Date(2025, 5, 15), { animated: false })
+      );
+
+      const range = ref.current?.getVisibleDateRange();
+      expect(range!.start < '2025-06-15').toBe(true);
+      expect(range!.end > '2025-06-15').toBe(true);
+      expect(ref.current?.getCellAt(100, centerY)?.date).toBe('2025-06-15');
+    });
+
+    it('animates scrolling over the animation duration', () => {
+      jest.useFakeTimers();
+      const onPanChange = jest.fn();
+      const { ref } = renderVirtualized({
+        animationDuration: 200,
+        onPanChange,
+      });
+
+      act(() => ref.current?.scrollToDate('2025-06-15'));
+      act(() => jest.advanceTimersByTime(100));
+      expect(ref.current?.getCellAt(100, centerY)?.date).not.toBe('2025-06-15');
+
+      act(() => jest.advanceTimersByTime(200));
+      expect(ref.current?.getCellAt(100, centerY)?.date).toBe('2025-06-15');
+      expect(onPanChange.mock.calls.length).toBeGreaterThan(2);
+
+      jest.useRealTimers();
+    });
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Tests for highlights of live, changed and highlightDates cells
+ */
+
+import { act, render } from '@testing-library/react-native';
+import { Heatmap } from '../index';
+import AnimatedCell from '../components/AnimatedCell';
+import {
+  DEFAULT_ANIMATION_CONFIG,
+  mergeAnimationConfig,
+  resolveHighlightConfig,
+  toDateKey,
+} from '../utils';
+import { DEFAULT_THEME } from '../types';
+import type {
+  HeatmapData,
+  HeatmapProps,
+  HighlightConfig,
+  ProcessedCellData,
+} from '../types';
+
+// Mock react-native-svg
+jest.mock('react-native-svg', () => {
+  const React = require('react');
+  const { View, Text } = require('react-native');
+
+  const MockSvg = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'svg', ...props }, children);
+  const MockRect = React.forwardRef((props: any, ref: any) =>
+    React.createElement(View, { testID: 'rect', ref, ...props })
+  );
+  const MockText = ({ children, ...props }: any) =>
+    React.createElement(Text, { testID: 'svg-text', ...props }, children);
+  const MockG = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'g', ...props }, children);
+
+  return {
+    __esModule: true,
+    default: MockSvg,
+    Svg: MockSvg,
+    Rect: MockRect,
+    Text: MockText,
+    G: MockG,
+  };
+});
+
+const highlightColor = DEFAULT_THEME.colors.highlight!;
+
+describe('resolveHighlightConfig', () => {
+  it('fills in the defaults and the theme color', () => {
+    expect(
+      resolveHighlightConfig(DEFAULT_ANIMATION_CONFIG, highlightColor)
+    ).toEqual({
+      enabled: true,
+      animation: 'pulse',
+      duration: 600,
+      color: highlightColor,
+      changes: true,
+      live: true,
+    });
+    expect(
+      resolveHighlightConfig(
+        { ...DEFAULT_ANIMATION_CONFIG, enabled: false },
+        highlightColor
+      ).enabled
+    ).toBe(false);
+  });
+
+  it('glows instead of pulsing under reduce motion', () => {
+    const merged = mergeAnimationConfig(DEFAULT_ANIMATION_CONFIG, {}, true);
+    expect(resolveHighlightConfig(merged, highlightColor).animation).toBe(
+      'glow'
+    );
+
+    const flash = mergeAnimationConfig(
+      DEFAULT_ANIMATION_CONFIG,
+      { highlight: { animation: 'flash' } },
+      true
+    );
+    expect(resolveHighlightConfig(flash, highlightColor).animation).toBe(
+      'flash'
+    );
+  });
+});
+
+describe('AnimatedCell highlights', () => {
+  const cell: ProcessedCellData = {
+    date: '2024-03-04',
+    value: 3,
+    x: 0,
+    y: 0,
+    color: '#40c463',
+    isEmpty: false,
+    normalizedValue: 1,
+  };
+
+  const renderCell = (
+    highlight: HighlightConfig,
+    props: { highlightActive?: boolean; highlightCount?: number } = {}
+  ) => (
+    <AnimatedCell
+      data={cell}
+      index={0}
+      totalCells={1}
+      cellSize={12}
+      cellSpacing={2}
+      cellShape="square"
+      animationConfig={{ ...DEFAULT_ANIMATION_CONFIG, entryAnimation: 'none' }}
+      highlight={resolveHighlightConfig(
+        { ...DEFAULT_ANIMATION_CONFIG, highlight },
+        highlightColor
+      )}
+      borderColor="#ebedf0"
+      borderWidth={0.5}
+      {...props}
+    />
+  );
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('pulses once each time the count changes', () => {
+    const pulse = { animation: 'pulse' as const, duration: 400 };
+    const { getByTestId, rerender } = render(renderCell(pulse));
+    const scale = () => getByTestId('rect').props.scale;
+
+    act(() => jest.advanceTimersByTime(400));
+    expect(scale()).toBe(1);
+
+    rerender(renderCell(pulse, { highlightCount: 1 }));
+    act(() => jest.advanceTimersByTime(200));
+    expect(scale()).toBeCloseTo(1.25);
+
+    act(() => jest.advanceTimersByTime(200));
+    expect(scale()).toBeCloseTo(1);
+  });
+
+  it('flashes a colored overlay once highlighted', () => {
+    const flash = { animation: 'flash' as const, duration: 400 };
+    const { getByTestId, queryByTestId, rerender } = render(renderCell(flash));
+    expect(queryByTestId('cell-highlight')).toBeNull();
+
+    rerender(renderCell(flash, { highlightCount: 1 }));
+    act(() => jest.advanceTimersByTime(200));
+    expect(getByTestId('cell-highlight').props).toMatchObject({
+      fill: highlightColor,
+      opacity: 1,
+    });
+
+    act(() => jest.advanceTimersByTime(200));
+    expect(getByTestId('cell-highlight').props.opacity).toBe(0);
+  });
+
+  it('keeps glowing while active', () => {
+    const glow = { animation: 'glow' as const, duration: 400 };
+    const { getByTestId } = render(renderCell(glow, { highlightActive: true }));
+
+    act(() => jest.advanceTimersByTime(1000));
+    expect(getByTestId('cell-highlight').props).toMatchObject({
+      stroke: highlightColor,
+      opacity: 1,
+    });
+  });
+});
+
+describe('Heatmap highlights', () => {
+  const data: HeatmapData[] = [
+    { date: '2024-03-04', value: 3 },
+    { date: '2024-03-12', value: 7 },
+  ];
+
+  const heatmap = (props: Partial<HeatmapProps>) => (
+    <Heatmap
+      data={data}
+      startDate={new Date(2024, 2, 3)}
+      endDate={new Date(2024, 2, 16)}
+      {...props}
+    />
+  );
+
+  const highlightCount = (getAll: (type: any) => any[], date: string) =>
+    getAll(AnimatedCell).find((cell) => cell.props.data.date === date)?.props
+      .highlightCount;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('highlights dates as they are added to highlightDates', () => {
+    const { UNSAFE_getAllByType, rerender } = render(
+      heatmap({ highlightDates: ['2024-03-04'] })
+    );
+    expect(highlightCount(UNSAFE_getAllByType, '2024-03-04')).toBe(1);
+
+    // A new array with the same dates does not replay it
+    rerender(heatmap({ highlightDates: ['2024-03-04'] }));
+    rerender(heatmap({ highlightDates: ['2024-03-04', '2024-03-12'] }));
+    expect(highlightCount(UNSAFE_getAllByType, '2024-03-04')).toBe(1);
+    expect(highlightCount(UNSAFE_getAllByType, '2024-03-12')).toBe(1);
+  });
+
+  it('highlights cells whose value changed', () => {
+    const { UNSAFE_getAllByType, rerender } = render(heatmap({}));
+
+    rerender(
+      heatmap({
+        data: [
+          { date: '2024-03-04', value: 5 },
+          { date: '2024-03-12', value: 7 },
+        ],
+      })
+    );
+    expect(highlightCount(UNSAFE_getAllByType, '2024-03-04')).toBe(1);
+    expect(highlightCount(UNSAFE_getAllByType, '2024-03-12')).toBeUndefined();
+  });
+
+  it('leaves changed cells alone when changes are off', () => {
+    const animation = { highlight: { changes: false } };
+    const { UNSAFE_getAllByType, rerender } = render(heatmap({ animation }));
+
+    rerender(heatmap({ animation, data: [{ date: '2024-03-04', value: 5 }] }));
+    expect(highlightCount(UNSAFE_getAllByType, '2024-03-04')).toBeUndefined();
+  });
+
+  it('keeps real-time cells highlighted while their latest entry is live', () => {
+    // Midday, so the entries fall in today's cell
+    jest.setSystemTime(new Date(2024, 2, 12, 12));
+    const today = toDateKey(new Date());
+    const liveDates = (getAll: (type: any) => any[]) =>
+      getAll(AnimatedCell)
+        .filter((cell) => cell.props.highlightActive)
+        .map((cell) => cell.props.data.date);
+
+    const { UNSAFE_getAllByType } = render(
+      <Heatmap
+        data={[
+          { date: Date.now() - 60 * 60 * 1000, value: 2 },
+          { date: Date.now() - 500, value: 4 },
+        ]}
+        layout="realTime"
+        updateInterval={1000}
+      />
+    );
+    expect(liveDates(UNSAFE_getAllByType)).toEqual([today]);
+
+    // Two update intervals after the latest entry
+    act(() => jest.advanceTimersByTime(2000));
+    expect(liveDates(UNSAFE_getAllByType)).toEqual([]);
+  });
+});
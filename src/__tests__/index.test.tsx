@@ -1,5 +1,8 @@
-import { render } from '@testing-library/react-native';
+import { AccessibilityInfo, Animated } from 'react-native';
+import { act, fireEvent, render, waitFor } from '@testing-library/react-native';
 import { Heatmap } from '../index';
+import AnimatedCell from '../components/AnimatedCell';
+import { DEFAULT_ANIMATION_CONFIG } from '../utils';
 import type { HeatmapData } from '../index';
 
 // Mock react-native-svg
@@ -35,6 +38,14 @@ const sampleData: HeatmapData[] = [
 ];
 
 describe('Heatmap Component', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
   it('renders without crashing', () => {
     const startDate = new Date('2024-01-01');
 
@@ -45,6 +56,16 @@ describe('Heatmap Component', () => {
     expect(getByTestId('svg')).toBeTruthy();
   });
 
+  it('animates cells with Animated alone, unless animated is false', () => {
+    const { UNSAFE_queryAllByType, rerender } = render(
+      <Heatmap data={sampleData} />
+    );
+    expect(UNSAFE_queryAllByType(AnimatedCell).length).toBeGreaterThan(0);
+
+    rerender(<Heatmap data={sampleData} animated={false} />);
+    expect(UNSAFE_queryAllByType(AnimatedCell)).toHaveLength(0);
+  });
+
   it('renders with default props', () => {
     const { getByTestId } = render(<Heatmap data={sampleData} />);
 
@@ -144,6 +165,35 @@ describe('Heatmap Component', () => {
     expect(getByTestId('svg')).toBeTruthy();
   });
 
+  it('lays weeks out as rows in a vertical calendar', () => {
+    const { getAllByTestId, getByTestId } = render(
+      <Heatmap
+        data={sampleData}
+        startDate={new Date(2024, 0, 1)}
+        endDate={new Date(2024, 0, 14)}
+        orientation="vertical"
+        animated={false}
+      />
+    );
+
+    // 2024-01-01 is a Monday: second column of the first row
+    const cells = getAllByTestId('rect');
+    expect(cells[0]?.props).toMatchObject({ x: 14, y: 0 });
+    expect(cells[6]?.props).toMatchObject({ x: 0, y: 14 });
+
+    const labels = getAllByTestId('svg-text');
+    const monthLabel = labels.find((label) => label.props.children === 'Jan');
+    expect(monthLabel?.props).toMatchObject({ x: -5, textAnchor: 'end' });
+    const weekdayLabel = labels.find((label) => label.props.children === 'M');
+    expect(weekdayLabel?.props.x).toBe(20);
+    expect(weekdayLabel?.props.y).toBeLessThan(0);
+
+    // Seven columns wide, three rows tall
+    const [, , width, height] = getByTestId('svg').props.viewBox.split(' ');
+    expect(Number(width)).toBeGreaterThan(7 * 14 - 2);
+    expect(Number(height)).toBeGreaterThan(3 * 14 - 2);
+  });
+
   it('handles interaction callbacks', () => {
     const onCellPress = jest.fn();
     const onCellLongPress = jest.fn();
@@ -161,6 +211,14 @@ describe('Heatmap Component', () => {
 });
 
 describe('Heatmap Accessibility', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
   it('applies accessibility props correctly', () => {
     const accessibilityProps = {
       label: 'Test heatmap',
@@ -175,3 +233,89 @@ describe('Heatmap Accessibility', () => {
     expect(getByLabelText('Test heatmap')).toBeTruthy();
   });
 });
+
+describe('Heatmap reduce motion', () => {
+  const entryAnimations = (getAll: (type: any) => any[]) =>
+    getAll(AnimatedCell).map(
+      (cell) => cell.props.animationConfig.entryAnimation
+    );
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('drops entry animations while the OS reduces motion', async () => {
+    let onChange: (enabled: boolean) => void = () => {};
+    jest
+      .spyOn(AccessibilityInfo, 'isReduceMotionEnabled')
+      .mockResolvedValue(true);
+    jest
+      .spyOn(AccessibilityInfo, 'addEventListener')
+      .mockImplementation((_event, handler: any) => {
+        onChange = handler;
+        return { remove: jest.fn() } as any;
+      });
+
+    const { UNSAFE_getAllByType } = render(
+      <Heatmap data={sampleData} animation={{ entryAnimation: 'scale' }} />
+    );
+
+    await waitFor(() =>
+      expect(entryAnimations(UNSAFE_getAllByType)[0]).toBe('none')
+    );
+
+    act(() => onChange(false));
+    expect(entryAnimations(UNSAFE_getAllByType)[0]).toBe('scale');
+  });
+
+  it('keeps animating when respectReducedMotion is false', async () => {
+    const isReduceMotionEnabled = jest
+      .spyOn(AccessibilityInfo, 'isReduceMotionEnabled')
+      .mockResolvedValue(true);
+
+    const { UNSAFE_getAllByType } = render(
+      <Heatmap
+        data={sampleData}
+        animation={{ entryAnimation: 'scale', respectReducedMotion: false }}
+      />
+    );
+    await act(() => isReduceMotionEnabled.mock.results[0]!.value);
+
+    expect(entryAnimations(UNSAFE_getAllByType)[0]).toBe('scale');
+  });
+
+  it('skips press springs without press feedback', () => {
+    const spring = jest.spyOn(Animated, 'spring');
+    const onPressIn = jest.fn();
+
+    const { getByLabelText } = render(
+      <AnimatedCell
+        data={{
+          date: '2024-01-01',
+          value: 3,
+          x: 0,
+          y: 0,
+          color: '#40c463',
+          isEmpty: false,
+          normalizedValue: 1,
+        }}
+        index={0}
+        totalCells={1}
+        cellSize={12}
+        cellSpacing={2}
+        cellShape="square"
+        animationConfig={{ ...DEFAULT_ANIMATION_CONFIG, pressFeedback: false }}
+        borderColor="#ebedf0"
+        borderWidth={0.5}
+        accessibilityLabel="January 1, 2024: 3"
+        onPressIn={onPressIn}
+        useSvg={false}
+      />
+    );
+
+    fireEvent(getByLabelText('January 1, 2024: 3'), 'pressIn');
+
+    expect(onPressIn).toHaveBeenCalled();
+    expect(spring).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Tests for keyboard navigation and the focus ring
+ */
+
+import { fireEvent, render } from '@testing-library/react-native';
+import { Heatmap } from '../index';
+import { getKeyboardNavigationTarget, indexCellsByPosition } from '../utils';
+import { DEFAULT_THEME } from '../types';
+import type { HeatmapData, HeatmapProps, ProcessedCellData } from '../types';
+
+// Mock react-native-svg
+jest.mock('react-native-svg', () => {
+  const React = require('react');
+  const { View, Text } = require('react-native');
+
+  const MockSvg = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'svg', ...props }, children);
+  const MockRect = (props: any) =>
+    React.createElement(View, { testID: 'rect', ...props });
+  const MockText = ({ children, ...props }: any) =>
+    React.createElement(Text, { testID: 'svg-text', ...props }, children);
+  const MockG = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'g', ...props }, children);
+
+  return {
+    __esModule: true,
+    default: MockSvg,
+    Svg: MockSvg,
+    Rect: MockRect,
+    Text: MockText,
+    G: MockG,
+  };
+});
+
+const data: HeatmapData[] = [
+  { date: '2024-03-04', value: 3 },
+  { date: '2024-03-12', value: 7 },
+];
+
+/**
+ * Render two calendar weeks, Sunday 3 March to Saturday 16 March
+ */
+function renderHeatmap(props: Partial<HeatmapProps> = {}) {
+  const utils = render(
+    <Heatmap
+      data={data}
+      startDate={new Date(2024, 2, 3)}
+      endDate={new Date(2024, 2, 16)}
+      animated={false}
+      accessibility={{ label: 'Activity' }}
+      {...props}
+    />
+  );
+
+  return {
+    ...utils,
+    cell: (index: number) => utils.getAllByTestId('rect')[index]!,
+    pressKey: (key: string) =>
+      fireEvent(utils.getByLabelText('Activity'), 'keyDown', {
+        nativeEvent: { key },
+      }),
+  };
+}
+
+describe('getKeyboardNavigationTarget', () => {
+  const cell = (date: string, x: number, y: number): ProcessedCellData => ({
+    date,
+    value: 0,
+    x,
+    y,
+    color: '#ebedf0',
+    isEmpty: true,
+    normalizedValue: 0,
+  });
+  const cells = [
+    cell('', 0, 0),
+    cell('2024-03-04', 0, 1),
+    cell('2024-03-10', 1, 0),
+    cell('2024-03-11', 1, 1),
+  ];
+  const positions = indexCellsByPosition(cells);
+
+  it('moves through the grid as drawn', () => {
+    expect(
+      getKeyboardNavigationTarget(cells[1]!, 'ArrowRight', positions)?.date
+    ).toBe('2024-03-11');
+    expect(
+      getKeyboardNavigationTarget(cells[3]!, 'ArrowUp', positions)?.date
+    ).toBe('2024-03-10');
+  });
+
+  it('mirrors left and right in right-to-left layouts', () => {
+    expect(
+      getKeyboardNavigationTarget(cells[1]!, 'ArrowLeft', positions, 'rtl')
+        ?.date
+    ).toBe('2024-03-11');
+  });
+
+  it('stops at filler cells, the edge of the grid and other keys', () => {
+    expect(getKeyboardNavigationTarget(cells[1]!, 'ArrowUp', positions)).toBe(
+      null
+    );
+    expect(
+      getKeyboardNavigationTarget(cells[1]!, 'ArrowLeft', positions)
+    ).toBeNull();
+    expect(getKeyboardNavigationTarget(cells[1]!, 'Tab', positions)).toBeNull();
+  });
+});
+
+describe('Heatmap keyboard navigation', () => {
+  it('lets dated cells take focus, with Tab reaching one of them', () => {
+    const { cell } = renderHeatmap();
+
+    // Sunday 3 March comes before the first entry, Monday 4 March has one
+    expect(cell(0).props).toMatchObject({ focusable: true, tabIndex: 0 });
+    expect(cell(1).props).toMatchObject({ focusable: true, tabIndex: -1 });
+  });
+
+  it('keeps the last focused cell as the tab stop', () => {
+    const { cell, pressKey } = renderHeatmap();
+
+    fireEvent(cell(1), 'focus');
+    pressKey('ArrowRight');
+    fireEvent(cell(8), 'blur');
+
+    // Monday 11 March, one column right of Monday 4 March
+    expect([0, 1, 8].map((index) => cell(index).props.tabIndex)).toEqual([
+      -1, -1, 0,
+    ]);
+  });
+
+  it('rings the focused cell and reports it', () => {
+    const onCellFocus = jest.fn();
+    const { cell, getByTestId, queryByTestId } = renderHeatmap({
+      onCellFocus,
+    });
+
+    fireEvent(cell(1), 'focus');
+
+    expect(onCellFocus).toHaveBeenCalledWith(
+      expect.objectContaining({ date: '2024-03-04' }),
+      1
+    );
+    expect(getByTestId('focus-ring').props).toMatchObject({
+      stroke: DEFAULT_THEME.colors.focus,
+      width: 16,
+    });
+
+    fireEvent(cell(1), 'blur');
+    expect(queryByTestId('focus-ring')).toBeNull();
+  });
+
+  it('moves focus with the arrow keys, a week at a time across', () => {
+    const onCellFocus = jest.fn();
+    const { cell, pressKey } = renderHeatmap({ onCellFocus });
+
+    fireEvent(cell(1), 'focus');
+    pressKey('ArrowRight');
+    pressKey('ArrowDown');
+    // Past the last column
+    pressKey('ArrowRight');
+
+    expect(onCellFocus.mock.calls.map(([focused]) => focused.date)).toEqual([
+      '2024-03-04',
+      '2024-03-11',
+      '2024-03-12',
+    ]);
+  });
+
+  it('calls onCellPress with Enter and toggles the selection with Space', () => {
+    const onCellPress = jest.fn();
+    const onSelectionChange = jest.fn();
+    const { cell, pressKey } = renderHeatmap({
+      onCellPress,
+      selectionMode: 'multiple',
+      onSelectionChange,
+    });
+
+    fireEvent(cell(2), 'focus');
+    pressKey('Enter');
+    expect(onCellPress).toHaveBeenCalledWith(
+      expect.objectContaining({ date: '2024-03-05' }),
+      2
+    );
+    expect(onSelectionChange).not.toHaveBeenCalled();
+
+    pressKey(' ');
+    pressKey(' ');
+    expect(onSelectionChange.mock.calls).toEqual([[['2024-03-05']], [[]]]);
+  });
+
+  it('leaves a press-triggered tooltip to taps', () => {
+    const { cell, pressKey, queryByText } = renderHeatmap({
+      tooltip: { enabled: true, trigger: 'press' },
+    });
+
+    fireEvent(cell(1), 'focus');
+    pressKey('Enter');
+    expect(queryByText('Value: 3')).toBeNull();
+  });
+
+  it('ignores keys without a focused cell', () => {
+    const onCellPress = jest.fn();
+    const { pressKey, queryByTestId } = renderHeatmap({ onCellPress });
+
+    pressKey('Enter');
+    pressKey('ArrowRight');
+
+    expect(onCellPress).not.toHaveBeenCalled();
+    expect(queryByTestId('focus-ring')).toBeNull();
+  });
+});
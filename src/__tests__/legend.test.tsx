@@ -0,0 +1,163 @@
+/**
+ * Tests for the heatmap legend
+ */
+
+import { render } from '@testing-library/react-native';
+import { Heatmap } from '../index';
+import { calculateLegendLayout } from '../components/Legend';
+import { calculateLegendSteps } from '../utils';
+import type { HeatmapData } from '../types';
+
+// Mock react-native-svg
+jest.mock('react-native-svg', () => {
+  const React = require('react');
+  const { View, Text } = require('react-native');
+
+  const MockSvg = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'svg', ...props }, children);
+  const MockRect = (props: any) =>
+    React.createElement(View, { testID: 'rect', ...props });
+  const MockText = ({ children, ...props }: any) =>
+    React.createElement(Text, { testID: 'svg-text', ...props }, children);
+  const MockG = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'g', ...props }, children);
+
+  return {
+    __esModule: true,
+    default: MockSvg,
+    Svg: MockSvg,
+    Rect: MockRect,
+    Text: MockText,
+    G: MockG,
+  };
+});
+
+const sampleData: HeatmapData[] = [
+  { date: '2024-01-01', value: 3 },
+  { date: '2024-01-02', value: 7 },
+  { date: '2024-01-03', value: 1 },
+];
+
+describe('calculateLegendLayout', () => {
+  const steps = calculateLegendSteps('github', 0, 8);
+
+  it('lays out a horizontal Less … More legend', () => {
+    const layout = calculateLegendLayout(
+      steps,
+      { mode: 'lessMore' },
+      'horizontal',
+      10,
+      2,
+      10
+    );
+
+    expect(layout.swatches).toHaveLength(5);
+    expect(layout.labels.map((label) => label.text)).toEqual(['Less', 'More']);
+    expect(layout.height).toBe(10);
+    // Swatches sit between the two captions
+    expect(layout.swatches[0]!.x).toBeGreaterThan(0);
+    expect(layout.labels[1]!.x).toBeGreaterThan(layout.swatches[4]!.x);
+  });
+
+  it('lays out a vertical tick legend', () => {
+    const layout = calculateLegendLayout(
+      steps,
+      { mode: 'ticks' },
+      'vertical',
+      10,
+      2,
+      10
+    );
+
+    expect(layout.labels.map((label) => label.text)).toEqual([
+      '0',
+      '2',
+      '4',
+      '6',
+      '8',
+    ]);
+    expect(layout.swatches.every((swatch) => swatch.x === 0)).toBe(true);
+    expect(layout.height).toBe(5 * 12 - 2);
+  });
+
+  it('uses custom captions and formatters', () => {
+    const lessMore = calculateLegendLayout(
+      steps,
+      { lessLabel: 'Few', moreLabel: 'Lots' },
+      'horizontal',
+      10,
+      2,
+      10
+    );
+    expect(lessMore.labels.map((label) => label.text)).toEqual(['Few', 'Lots']);
+
+    const ticks = calculateLegendLayout(
+      steps,
+      { mode: 'ticks', formatValue: (value) => `${value}h` },
+      'horizontal',
+      10,
+      2,
+      10
+    );
+    expect(ticks.labels[4]!.text).toBe('8h');
+  });
+});
+
+describe('Heatmap legend', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('does not render a legend by default', () => {
+    const { queryByText } = render(<Heatmap data={sampleData} />);
+
+    expect(queryByText('Less')).toBeNull();
+  });
+
+  it('renders the legend in every position', () => {
+    const positions = ['top', 'bottom', 'left', 'right'] as const;
+
+    positions.forEach((legendPosition) => {
+      const { getByText, unmount } = render(
+        <Heatmap data={sampleData} showLegend legendPosition={legendPosition} />
+      );
+
+      expect(getByText('Less')).toBeTruthy();
+      expect(getByText('More')).toBeTruthy();
+      unmount();
+    });
+  });
+
+  it('enlarges the viewBox to fit the legend', () => {
+    const startDate = new Date('2024-01-01');
+    const endDate = new Date('2024-01-03');
+    const { getByTestId, rerender } = render(
+      <Heatmap data={sampleData} startDate={startDate} endDate={endDate} />
+    );
+    const heightWithout = getByTestId('svg').props.height;
+
+    rerender(
+      <Heatmap
+        data={sampleData}
+        startDate={startDate}
+        endDate={endDate}
+        showLegend
+        legendPosition="bottom"
+      />
+    );
+
+    expect(getByTestId('svg').props.height).toBeGreaterThan(heightWithout);
+  });
+
+  it('renders numeric ticks in ticks mode', () => {
+    const { getByText } = render(
+      <Heatmap data={sampleData} showLegend legend={{ mode: 'ticks' }} />
+    );
+
+    expect(getByText('7')).toBeTruthy();
+  });
+});
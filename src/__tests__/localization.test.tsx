@@ -0,0 +1,386 @@
+/**
+ * Tests for locale-aware labels, tooltips, accessibility text and
+ * right-to-left layout
+ */
+
+import { I18nManager } from 'react-native';
+import { render } from '@testing-library/react-native';
+import { Heatmap } from '../index';
+import Tooltip, { calculateTooltipPosition } from '../components/Tooltip';
+import {
+  formatWeekdayLabel,
+  formatHourLabel,
+  formatDateKeyLong,
+  formatValueLabel,
+  calculateYearlyLayout,
+  calculateCustomRangeLayout,
+  calculateWeeklyLayout,
+  getColumnOffset,
+} from '../utils';
+import { DEFAULT_THEME } from '../types';
+import type { HeatmapData, ProcessedCellData } from '../types';
+
+// Mock react-native-svg
+jest.mock('react-native-svg', () => {
+  const React = require('react');
+  const { View, Text } = require('react-native');
+
+  const MockSvg = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'svg', ...props }, children);
+  const MockRect = (props: any) =>
+    React.createElement(View, { testID: 'rect', ...props });
+  const MockText = ({ children, ...props }: any) =>
+    React.createElement(Text, { testID: 'svg-text', ...props }, children);
+  const MockG = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'g', ...props }, children);
+
+  return {
+    __esModule: true,
+    default: MockSvg,
+    Svg: MockSvg,
+    Rect: MockRect,
+    Text: MockText,
+    G: MockG,
+  };
+});
+
+const sampleData: HeatmapData[] = [
+  { date: '2024-03-04', value: 3 },
+  { date: '2024-03-12', value: 7 },
+];
+
+describe('Locale formatting helpers', () => {
+  it('formats weekday names', () => {
+    expect(formatWeekdayLabel(1)).toBe('Mon');
+    expect(formatWeekdayLabel(2, 'de-DE', 'narrow')).toBe('D');
+    expect(formatWeekdayLabel(0, 'fr-FR', 'long')).toBe('dimanche');
+  });
+
+  it('formats hours in the requested or locale hour cycle', () => {
+    expect(formatHourLabel(0, 'en-US', '12h')).toBe('12 AM');
+    expect(formatHourLabel(13, 'en-US', '24h')).toBe('13:00');
+    expect(formatHourLabel(13, 'de-DE', '24h')).toBe('13:00');
+    expect(formatHourLabel(13)).toBe('1 PM');
+  });
+
+  it('formats day and hour keys as full dates', () => {
+    expect(formatDateKeyLong('2024-01-15')).toBe('Jan 15, 2024');
+    expect(formatDateKeyLong('2024-01-15', 'de-DE')).toBe('15. Jan. 2024');
+    expect(formatDateKeyLong('2024-01-15T14:00:00', 'de-DE')).toBe(
+      '15. Jan. 2024, 14:00'
+    );
+  });
+
+  it('formats values with locale separators', () => {
+    expect(formatValueLabel(1234.56)).toBe('1,234.6');
+    expect(formatValueLabel(1234.56, 'de-DE')).toBe('1.234,6');
+    expect(formatValueLabel(7)).toBe('7');
+  });
+});
+
+describe('Localized layouts', () => {
+  const targetDate = new Date('2024-03-15T12:00:00Z');
+
+  it('localizes yearly month labels', () => {
+    const result = calculateYearlyLayout([], targetDate, 'UTC', {}, 'de-DE');
+
+    expect(result.monthBoundaries[2]).toMatchObject({
+      month: 'Mär',
+      date: '2024-03-01',
+    });
+  });
+
+  it('localizes weekly day labels', () => {
+    const result = calculateWeeklyLayout([], targetDate, 'UTC', {}, 'fr-FR');
+
+    expect(result.dayBoundaries[0]?.day).toBe('dim.');
+  });
+
+  it('localizes custom range period labels', () => {
+    const result = calculateCustomRangeLayout(
+      [],
+      new Date('2024-01-01T00:00:00Z'),
+      new Date('2024-03-01T00:00:00Z'),
+      'month',
+      'UTC',
+      {},
+      'fr-FR'
+    );
+
+    expect(result.periodBoundaries.map((boundary) => boundary.period)).toEqual([
+      'janv.',
+      'févr.',
+      'mars',
+    ]);
+  });
+});
+
+describe('Heatmap locale', () => {
+  const startDate = new Date(2024, 2, 1);
+  const endDate = new Date(2024, 3, 30);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('renders localized month and weekday labels', () => {
+    const { getByText, getAllByText } = render(
+      <Heatmap
+        data={sampleData}
+        startDate={startDate}
+        endDate={endDate}
+        locale="de-DE"
+        weekStartsOn={1}
+      />
+    );
+
+    expect(getByText('Mär')).toBeTruthy();
+    expect(getByText('Apr')).toBeTruthy();
+    // Montag, Dienstag, Mittwoch, Donnerstag, Freitag, Samstag, Sonntag
+    expect(getAllByText('D')).toHaveLength(2);
+    expect(getAllByText('S')).toHaveLength(2);
+  });
+
+  it('lets per-axis formatters override the default labels', () => {
+    const formatXLabel = jest.fn(
+      (label: string, { date }: { date?: string }) => `${label} ${date}`
+    );
+    const formatYLabel = jest.fn((label: string, { index }) =>
+      index % 2 === 0 ? label.toLowerCase() : ''
+    );
+
+    const { getByText, getAllByText } = render(
+      <Heatmap
+        data={sampleData}
+        startDate={startDate}
+        endDate={endDate}
+        locale="de-DE"
+        formatXLabel={formatXLabel}
+        formatYLabel={formatYLabel}
+      />
+    );
+
+    expect(getByText('Mär 2024-03-01')).toBeTruthy();
+    expect(formatXLabel).toHaveBeenCalledWith(
+      'Mär',
+      expect.objectContaining({ type: 'month', index: 0, locale: 'de-DE' })
+    );
+    expect(formatYLabel).toHaveBeenCalledWith(
+      'S',
+      expect.objectContaining({ type: 'weekday', index: 0 })
+    );
+    expect(getAllByText('s')).toHaveLength(2);
+  });
+
+  it('localizes the default accessibility label', () => {
+    const { getByLabelText } = render(
+      <Heatmap
+        data={sampleData}
+        startDate={startDate}
+        endDate={endDate}
+        locale="de-DE"
+      />
+    );
+
+    expect(
+      getByLabelText(
+        /^Heatmap visualization, 1\. März 2024 – 30\. Apr\. 2024\./
+      )
+    ).toBeTruthy();
+  });
+
+  it('reads translated accessibility strings', () => {
+    const { getByLabelText, getAllByTestId } = render(
+      <Heatmap
+        data={sampleData}
+        startDate={startDate}
+        endDate={endDate}
+        locale="de-DE"
+        animated={false}
+        accessibility={{
+          strings: {
+            heatmap: 'Aktivitätskarte',
+            total: (total) => `Summe: ${total}`,
+            highest: (value, date) => `Höchstwert: ${value} am ${date}`,
+            longestStreak: (days) => `Längste Serie: ${days} Tage`,
+            busiestWeekday: (weekday) => `Aktivster Wochentag: ${weekday}`,
+            nextDay: 'Nächster Tag',
+          },
+        }}
+      />
+    );
+
+    expect(
+      getByLabelText(
+        'Aktivitätskarte, 1. März 2024 – 30. Apr. 2024. Summe: 10. ' +
+          'Höchstwert: 7 am 12. März 2024. Längste Serie: 1 Tage. ' +
+          'Aktivster Wochentag: Dienstag'
+      )
+    ).toBeTruthy();
+    const actions = getAllByTestId('rect').find(
+      (cell) => cell.props.accessibilityActions
+    )?.props.accessibilityActions;
+    expect(actions[0]).toEqual({ name: 'increment', label: 'Nächster Tag' });
+    expect(actions[1]).toEqual({ name: 'decrement', label: 'Previous day' });
+  });
+
+  it('lets formatSummary replace the summary', () => {
+    const formatSummary = jest.fn(() => 'Zusammenfassung');
+    const { getByLabelText } = render(
+      <Heatmap
+        data={sampleData}
+        startDate={startDate}
+        endDate={endDate}
+        locale="de-DE"
+        accessibility={{ strings: { heatmap: 'Karte' }, formatSummary }}
+      />
+    );
+
+    expect(getByLabelText('Karte, Zusammenfassung')).toBeTruthy();
+    expect(formatSummary).toHaveBeenCalledWith(
+      expect.objectContaining({ total: 10, busiestWeekday: 2 }),
+      'de-DE'
+    );
+  });
+
+  it('keeps a custom accessibility label', () => {
+    const { getByLabelText } = render(
+      <Heatmap
+        data={sampleData}
+        accessibility={{ label: 'Aktivität' }}
+        locale="de-DE"
+      />
+    );
+
+    expect(getByLabelText('Aktivität')).toBeTruthy();
+  });
+});
+
+describe('Tooltip locale', () => {
+  const cell: ProcessedCellData = {
+    date: '2024-01-15',
+    value: 1234.5,
+    x: 0,
+    y: 0,
+    color: '#40c463',
+    isEmpty: false,
+    normalizedValue: 1,
+  };
+
+  it('formats the default content in the locale', () => {
+    const { getByText } = render(
+      <Tooltip
+        data={cell}
+        cellPosition={{ x: 0, y: 0 }}
+        cellSize={12}
+        config={{ enabled: true }}
+        theme={DEFAULT_THEME}
+        containerDimensions={{ width: 300, height: 300 }}
+        visible
+        locale="de-DE"
+      />
+    );
+
+    expect(getByText('15. Jan. 2024')).toBeTruthy();
+    expect(getByText('Value: 1.234,5')).toBeTruthy();
+  });
+
+  it('reads translated labels', () => {
+    const { getByText } = render(
+      <Tooltip
+        data={cell}
+        cellPosition={{ x: 0, y: 0 }}
+        cellSize={12}
+        config={{
+          enabled: true,
+          strings: {
+            value: (value) => `Wert: ${value}`,
+            range: (min, max) => `Bereich: ${min} bis ${max}`,
+          },
+        }}
+        theme={DEFAULT_THEME}
+        containerDimensions={{ width: 300, height: 300 }}
+        steps={[{ color: '#40c463', value: 1500, min: 1000, max: 2000 }]}
+        visible
+        locale="de-DE"
+      />
+    );
+
+    expect(getByText('Wert: 1.234,5')).toBeTruthy();
+    expect(getByText('Bereich: 1.000 bis 2.000')).toBeTruthy();
+  });
+});
+
+describe('Right-to-left layout', () => {
+  const startDate = new Date(2024, 2, 3);
+  const endDate = new Date(2024, 2, 16);
+
+  it('mirrors column offsets across the content width', () => {
+    expect(getColumnOffset(0, 10, 2, 46)).toBe(0);
+    expect(getColumnOffset(0, 10, 2, 46, 'rtl')).toBe(36);
+    expect(getColumnOffset(3, 10, 2, 46, 'rtl')).toBe(0);
+  });
+
+  it('prefers the left side when auto-positioning tooltips', () => {
+    // Too short for top or bottom placement, wide enough for both sides
+    const args = [
+      { x: 140, y: 10 },
+      12,
+      { width: 120, height: 30 },
+      { width: 400, height: 40 },
+      'auto',
+      8,
+    ] as const;
+
+    expect(calculateTooltipPosition(...args).position).toBe('right');
+    expect(calculateTooltipPosition(...args, 'rtl').position).toBe('left');
+  });
+
+  it('renders the oldest week on the right with labels on the right edge', () => {
+    const { getAllByTestId, getByTestId, getByText } = render(
+      <Heatmap
+        data={sampleData}
+        startDate={startDate}
+        endDate={endDate}
+        direction="rtl"
+        animated={false}
+      />
+    );
+
+    // Two weeks of 12px cells with 2px spacing
+    const width = 2 * 14 - 2;
+    const cells = getAllByTestId('rect');
+    expect(cells[0]?.props.x).toBe(width - 12);
+    expect(cells[7]?.props.x).toBe(0);
+
+    const monthLabel = getByText('Mar');
+    expect(monthLabel.props.textAnchor).toBe('end');
+    expect(monthLabel.props.x).toBe(width);
+
+    const weekdayLabel = getAllByTestId('svg-text').find(
+      (label) => label.props.children === 'M'
+    );
+    expect(weekdayLabel?.props.x).toBeGreaterThan(width);
+    expect(getByTestId('svg').props.viewBox.startsWith('-0 ')).toBe(true);
+  });
+
+  it('follows I18nManager.isRTL by default', () => {
+    const replaced = jest.replaceProperty(I18nManager, 'isRTL', true);
+
+    const { getAllByTestId } = render(
+      <Heatmap
+        data={sampleData}
+        startDate={startDate}
+        endDate={endDate}
+        animated={false}
+      />
+    );
+
+    expect(getAllByTestId('rect')[0]?.props.x).toBe(14);
+    replaced.restore();
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Tests for cell selection
+ */
+
+import { fireEvent, render } from '@testing-library/react-native';
+import { Heatmap } from '../index';
+import AnimatedCell from '../components/AnimatedCell';
+import {
+  calculateBrushBounds,
+  getDatesBetween,
+  updateSelection,
+} from '../utils';
+import { DEFAULT_THEME } from '../types';
+import type { HeatmapData, ProcessedCellData } from '../types';
+
+// Mock react-native-svg
+jest.mock('react-native-svg', () => {
+  const React = require('react');
+  const { View, Text } = require('react-native');
+
+  const MockSvg = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'svg', ...props }, children);
+  const MockRect = (props: any) =>
+    React.createElement(View, { testID: 'rect', ...props });
+  const MockText = ({ children, ...props }: any) =>
+    React.createElement(Text, { testID: 'svg-text', ...props }, children);
+  const MockG = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'g', ...props }, children);
+
+  return {
+    __esModule: true,
+    default: MockSvg,
+    Svg: MockSvg,
+    Rect: MockRect,
+    Text: MockText,
+    G: MockG,
+  };
+});
+
+const selectionColor = DEFAULT_THEME.colors.selection;
+
+describe('Selection utilities', () => {
+  const dates = ['2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04'];
+  const empty = { selectedDates: [], anchor: null };
+
+  it('spans dates in list order, in either direction', () => {
+    expect(getDatesBetween(dates, '2024-01-02', '2024-01-04')).toEqual([
+      '2024-01-02',
+      '2024-01-03',
+      '2024-01-04',
+    ]);
+    expect(getDatesBetween(dates, '2024-01-03', '2024-01-01')).toEqual([
+      '2024-01-01',
+      '2024-01-02',
+      '2024-01-03',
+    ]);
+    expect(getDatesBetween(dates, '2024-01-02', '2024-02-01')).toEqual([
+      '2024-01-02',
+      '2024-02-01',
+    ]);
+  });
+
+  it('replaces or clears a single selection', () => {
+    const first = updateSelection(empty, '2024-01-01', 'single', dates);
+    expect(first.selectedDates).toEqual(['2024-01-01']);
+
+    const second = updateSelection(first, '2024-01-02', 'single', dates);
+    expect(second.selectedDates).toEqual(['2024-01-02']);
+
+    expect(
+      updateSelection(second, '2024-01-02', 'single', dates).selectedDates
+    ).toEqual([]);
+  });
+
+  it('toggles dates in multiple mode', () => {
+    const state = {
+      selectedDates: ['2024-01-01', '2024-01-03'],
+      anchor: null,
+    };
+
+    expect(
+      updateSelection(state, '2024-01-04', 'multiple', dates).selectedDates
+    ).toEqual(['2024-01-01', '2024-01-03', '2024-01-04']);
+    expect(
+      updateSelection(state, '2024-01-01', 'multiple', dates).selectedDates
+    ).toEqual(['2024-01-03']);
+  });
+
+  it('selects a range with two taps', () => {
+    const started = updateSelection(empty, '2024-01-03', 'range', dates);
+    expect(started).toEqual({
+      selectedDates: ['2024-01-03'],
+      anchor: '2024-01-03',
+    });
+
+    expect(updateSelection(started, '2024-01-01', 'range', dates)).toEqual({
+      selectedDates: ['2024-01-01', '2024-01-02', '2024-01-03'],
+      anchor: null,
+    });
+  });
+
+  it('ignores presses when selection is off', () => {
+    expect(updateSelection(empty, '2024-01-01', 'none', dates)).toBe(empty);
+  });
+
+  it('maps brush corners to the grid slots they cover', () => {
+    // 12px cells with 2px gaps: x 30 is column 2, x 13 is the gap after column 0
+    expect(
+      calculateBrushBounds({ x: 30, y: 13 }, { x: 13, y: 0 }, 12, 2)
+    ).toEqual({ minColumn: 0, maxColumn: 2, minRow: 0, maxRow: 0 });
+  });
+});
+
+describe('Heatmap selection', () => {
+  const data: HeatmapData[] = [{ date: '2024-03-04', value: 3 }];
+  // Sunday to Saturday, one calendar column
+  const startDate = new Date(2024, 2, 3);
+  const endDate = new Date(2024, 2, 9);
+
+  const getOutlinedCells = (cells: any[]) =>
+    cells.flatMap((cell, index) =>
+      cell.props.stroke === selectionColor ? [index] : []
+    );
+
+  it('outlines the cells selected through selectedDates', () => {
+    const { getAllByTestId } = render(
+      <Heatmap
+        data={data}
+        startDate={startDate}
+        endDate={endDate}
+        animated={false}
+        selectionMode="multiple"
+        selectedDates={['2024-03-04', '2024-03-06']}
+      />
+    );
+
+    const cells = getAllByTestId('rect');
+    expect(getOutlinedCells(cells)).toEqual([1, 3]);
+    expect(cells[1]?.props.strokeWidth).toBe(2);
+  });
+
+  it('keeps controlled selections until the parent updates them', () => {
+    const onSelectionChange = jest.fn();
+
+    const { getAllByTestId } = render(
+      <Heatmap
+        data={data}
+        startDate={startDate}
+        endDate={endDate}
+        animated={false}
+        selectionMode="single"
+        selectedDates={['2024-03-04']}
+        onSelectionChange={onSelectionChange}
+      />
+    );
+
+    fireEvent.press(getAllByTestId('rect')[5]!);
+
+    expect(onSelectionChange).toHaveBeenCalledWith(['2024-03-08']);
+    expect(getOutlinedCells(getAllByTestId('rect'))).toEqual([1]);
+  });
+
+  it('manages the selection itself when uncontrolled', () => {
+    const onSelectionChange = jest.fn();
+
+    const { getAllByTestId } = render(
+      <Heatmap
+        data={data}
+        startDate={startDate}
+        endDate={endDate}
+        animated={false}
+        selectionMode="range"
+        onSelectionChange={onSelectionChange}
+      />
+    );
+
+    fireEvent.press(getAllByTestId('rect')[5]!);
+    expect(getOutlinedCells(getAllByTestId('rect'))).toEqual([5]);
+
+    fireEvent.press(getAllByTestId('rect')[2]!);
+    expect(onSelectionChange).toHaveBeenLastCalledWith([
+      '2024-03-05',
+      '2024-03-06',
+      '2024-03-07',
+      '2024-03-08',
+    ]);
+    expect(getOutlinedCells(getAllByTestId('rect'))).toEqual([2, 3, 4, 5]);
+  });
+
+  it('does not select without a selection mode', () => {
+    const onSelectionChange = jest.fn();
+
+    const { getAllByTestId } = render(
+      <Heatmap
+        data={data}
+        startDate={startDate}
+        endDate={endDate}
+        animated={false}
+        onSelectionChange={onSelectionChange}
+      />
+    );
+
+    fireEvent.press(getAllByTestId('rect')[1]!);
+
+    expect(onSelectionChange).not.toHaveBeenCalled();
+    expect(getOutlinedCells(getAllByTestId('rect'))).toEqual([]);
+  });
+});
+
+describe('AnimatedCell selection', () => {
+  const cell: ProcessedCellData = {
+    date: '2024-03-04',
+    value: 3,
+    x: 0,
+    y: 1,
+    color: '#40c463',
+    isEmpty: false,
+    normalizedValue: 1,
+  };
+
+  it('outlines a selected cell', () => {
+    const props = {
+      data: cell,
+      index: 0,
+      totalCells: 1,
+      cellSize: 12,
+      cellSpacing: 2,
+      cellShape: 'square' as const,
+      borderColor: '#ebedf0',
+      borderWidth: 0.5,
+      selectionColor,
+    };
+
+    const { getByTestId, rerender } = render(<AnimatedCell {...props} />);
+    expect(getByTestId('rect').props).toMatchObject({
+      stroke: '#ebedf0',
+      strokeWidth: 0.5,
+    });
+
+    rerender(<AnimatedCell {...props} selected />);
+    expect(getByTestId('rect').props).toMatchObject({
+      stroke: selectionColor,
+      strokeWidth: 2,
+    });
+  });
+});
@@ -6,9 +6,15 @@ import {
   calculateCustomRangeLayout,
   calculateTimelineScrollLayout,
   calculateRealTimeLayout,
+  getLiveDates,
   formatDateISO,
+  generateDateRange,
+  processHeatmapData,
+  toDateKey,
+  toHourKey,
+  toInstant,
 } from '../utils';
-import type { ProcessedCellData } from '../types';
+import type { HeatmapData, ProcessedCellData } from '../types';
 
 // Mock data generator
 const generateMockData = (
@@ -82,6 +88,62 @@ describe('Time-Based Layout Utilities', () => {
     });
   });
 
+  describe('hourly bucketing for the daily layout', () => {
+    const events: HeatmapData[] = [
+      { date: '2024-01-15T08:15:00Z', value: 1 },
+      { date: '2024-01-15T08:45:00Z', value: 2 },
+      { date: Date.parse('2024-01-15T17:05:00Z'), value: 4 },
+      { date: '2024-01-16T01:00:00Z', value: 8 },
+    ];
+
+    it('fills every hour slot from timestamps', () => {
+      const targetDate = new Date('2024-01-15T12:00:00Z');
+      const processed = processHeatmapData(
+        events,
+        targetDate,
+        targetDate,
+        'github',
+        'grid',
+        { granularity: 'hour', timeZone: 'UTC' }
+      );
+
+      expect(processed).toHaveLength(24);
+
+      const result = calculateDailyLayout(processed, targetDate, '24h', 'UTC');
+
+      expect(result.hourData[8]?.value).toBe(3);
+      expect(result.hourData[8]?.entries).toHaveLength(2);
+      expect(result.hourData[17]?.value).toBe(4);
+      expect(result.hourData[17]?.x).toBe(17);
+      expect(result.hourData.filter((cell) => !cell.isEmpty)).toHaveLength(2);
+    });
+
+    it('buckets hours in the configured time zone', () => {
+      const targetDate = new Date('2024-01-15T12:00:00Z');
+      const timeZone = 'America/New_York'; // UTC-5 in January
+      const processed = processHeatmapData(
+        events,
+        targetDate,
+        targetDate,
+        'github',
+        'grid',
+        { granularity: 'hour', timeZone }
+      );
+
+      const result = calculateDailyLayout(
+        processed,
+        targetDate,
+        '24h',
+        timeZone
+      );
+
+      expect(result.hourData[3]?.value).toBe(3);
+      expect(result.hourData[12]?.value).toBe(4);
+      expect(result.hourData[20]?.value).toBe(8); // 01:00Z next day
+      expect(result.hourData[8]?.isEmpty).toBe(true);
+    });
+  });
+
   describe('calculateWeeklyLayout', () => {
     it('should calculate weekly layout for 7 days', () => {
       const targetDate = new Date('2024-01-15'); // Monday
@@ -129,6 +191,7 @@ describe('Time-Based Layout Utilities', () => {
       // Check week boundaries
       expect(result.weekBoundaries[0]).toEqual({
         week: 1,
+        weekNumber: 1,
         x: 0,
         width: 7,
       });
@@ -187,8 +250,8 @@ describe('Time-Based Layout Utilities', () => {
 
   describe('calculateCustomRangeLayout', () => {
     it('should calculate custom range with day granularity', () => {
-      const startDate = new Date('2024-01-01');
-      const endDate = new Date('2024-01-07');
+      const startDate = new Date(2024, 0, 1);
+      const endDate = new Date(2024, 0, 7);
       const mockData = generateMockData([
         '2024-01-01',
         '2024-01-03',
@@ -216,8 +279,8 @@ describe('Time-Based Layout Utilities', () => {
     });
 
     it('should calculate custom range with week granularity', () => {
-      const startDate = new Date('2024-01-01');
-      const endDate = new Date('2024-01-21');
+      const startDate = new Date(2024, 0, 1);
+      const endDate = new Date(2024, 0, 21);
       const mockData = generateMockData([
         '2024-01-01',
         '2024-01-08',
@@ -236,8 +299,8 @@ describe('Time-Based Layout Utilities', () => {
     });
 
     it('should calculate custom range with month granularity', () => {
-      const startDate = new Date('2024-01-01');
-      const endDate = new Date('2024-03-31');
+      const startDate = new Date(2024, 0, 1);
+      const endDate = new Date(2024, 2, 31);
       const mockData = generateMockData([
         '2024-01-01',
         '2024-02-01',
@@ -377,6 +440,238 @@ describe('Time-Based Layout Utilities', () => {
       expect(typeof result.liveIndicators[0]?.active).toBe('boolean');
       expect(typeof result.liveIndicators[1]?.active).toBe('boolean');
     });
+
+    it('times live indicators from the latest raw entry in each cell', () => {
+      const now = new Date('2024-03-12T12:00:00Z');
+      const data: HeatmapData[] = [
+        { date: '2024-03-11T23:00:00Z', value: 1 },
+        { date: now.getTime() - 3000, value: 2 },
+        { date: '2024-03-12T11:59:59.500Z', value: 3 },
+      ];
+      const cells = generateMockData(['2024-03-11', '2024-03-12']);
+
+      const result = calculateRealTimeLayout(cells, 48, 1000, 'UTC', data, now);
+
+      expect(result.liveIndicators).toEqual([
+        {
+          timestamp: new Date('2024-03-11T23:00:00Z'),
+          position: 0,
+          active: false,
+        },
+        {
+          timestamp: new Date('2024-03-12T11:59:59.500Z'),
+          position: 1,
+          active: true,
+        },
+      ]);
+      expect(getLiveDates(result, 1000, now)).toEqual(['2024-03-12']);
+      expect(
+        getLiveDates(result, 1000, new Date('2024-03-12T12:00:01.500Z'))
+      ).toEqual([]);
+    });
+  });
+
+  describe('week start and numbering', () => {
+    it('starts weekly layouts on the configured day', () => {
+      const result = calculateWeeklyLayout([], new Date('2024-01-07'), 'UTC', {
+        weekStartsOn: 1,
+      });
+
+      expect(result.dayData[0]?.date).toBe('2024-01-01');
+      expect(result.dayBoundaries.map((boundary) => boundary.day)).toEqual([
+        'Mon',
+        'Tue',
+        'Wed',
+        'Thu',
+        'Fri',
+        'Sat',
+        'Sun',
+      ]);
+    });
+
+    it('builds Monday-start month grids with ISO week numbers', () => {
+      // February 2021 starts on a Monday and spans exactly four ISO weeks
+      const result = calculateMonthlyLayout([], new Date('2021-02-15'), 'UTC', {
+        weekStartsOn: 1,
+        weekNumbering: 'iso',
+      });
+
+      expect(result.monthData).toHaveLength(4);
+      expect(result.monthData[0]?.[0]?.date).toBe('2021-02-01');
+      expect(
+        result.weekBoundaries.map((boundary) => boundary.weekNumber)
+      ).toEqual([5, 6, 7, 8]);
+    });
+
+    it('labels custom range weeks with ISO numbers', () => {
+      const result = calculateCustomRangeLayout(
+        [],
+        new Date('2020-12-30'),
+        new Date('2021-01-12'),
+        'week',
+        'UTC',
+        { weekStartsOn: 1, weekNumbering: 'iso' }
+      );
+
+      expect(result.rangeData[0]?.date).toBe('2020-12-28');
+      expect(
+        result.periodBoundaries.map((boundary) => boundary.period)
+      ).toEqual(['W53', 'W1', 'W2']);
+    });
+  });
+
+  describe('time zone bucketing across DST', () => {
+    it('generates each day once across the spring-forward transition', () => {
+      // Midnight in New York on either side of 2024-03-10
+      const start = new Date('2024-03-09T05:00:00Z');
+      const end = new Date('2024-03-12T04:00:00Z');
+
+      expect(generateDateRange(start, end, 'America/New_York')).toEqual([
+        '2024-03-09',
+        '2024-03-10',
+        '2024-03-11',
+        '2024-03-12',
+      ]);
+    });
+
+    it('places calendar cells on the weekday of the time zone', () => {
+      const data: HeatmapData[] = [
+        { date: '2024-03-10T12:00:00Z', value: 2 },
+        // 23:30 EDT on Sunday 2024-03-10
+        { date: '2024-03-11T03:30:00Z', value: 3 },
+      ];
+
+      const cells = processHeatmapData(
+        data,
+        new Date('2024-03-09T05:00:00Z'),
+        new Date('2024-03-12T04:00:00Z'),
+        'github',
+        'calendar',
+        { timeZone: 'America/New_York' }
+      );
+
+      expect(cells.map((cell) => cell.date)).toEqual([
+        '2024-03-09',
+        '2024-03-10',
+        '2024-03-11',
+        '2024-03-12',
+      ]);
+      const sunday = cells.find((cell) => cell.date === '2024-03-10');
+      expect(sunday?.value).toBe(5);
+      expect(sunday?.y).toBe(0);
+      expect(sunday?.dayOfWeek).toBe(0);
+      expect(cells.find((cell) => cell.date === '2024-03-11')?.isEmpty).toBe(
+        true
+      );
+    });
+
+    it('merges the repeated hour of the fall-back transition', () => {
+      const data: HeatmapData[] = [
+        // 01:30 BST and 01:30 GMT on 2024-10-27
+        { date: '2024-10-27T00:30:00Z', value: 1 },
+        { date: '2024-10-27T01:30:00Z', value: 2 },
+      ];
+      const targetDate = new Date('2024-10-27T12:00:00Z');
+
+      const cells = processHeatmapData(
+        data,
+        targetDate,
+        targetDate,
+        'github',
+        'grid',
+        { granularity: 'hour', timeZone: 'Europe/London' }
+      );
+      const result = calculateDailyLayout(
+        cells,
+        targetDate,
+        '24h',
+        'Europe/London'
+      );
+
+      expect(result.hourData).toHaveLength(24);
+      expect(result.hourData[1]?.value).toBe(3);
+      expect(result.hourData.filter((cell) => !cell.isEmpty)).toHaveLength(1);
+    });
+
+    it('steps hourly ranges in real time across the spring-forward gap', () => {
+      // Midnight to 23:00 EDT on 2024-03-10, a 23-hour day
+      const result = calculateCustomRangeLayout(
+        [],
+        new Date('2024-03-10T05:00:00Z'),
+        new Date('2024-03-11T03:00:00Z'),
+        'hour',
+        'America/New_York'
+      );
+
+      const keys = result.rangeData.map((cell) => cell.date);
+      expect(keys).toHaveLength(23);
+      expect(new Set(keys).size).toBe(23);
+      expect(keys).not.toContain('2024-03-10T02:00:00');
+      expect(result.periodBoundaries[3]?.period).toBe('4 AM');
+    });
+
+    it('uses the target date as seen east of UTC', () => {
+      // 2024-01-31T12:00Z is already 1 February in Kiritimati (UTC+14)
+      const targetDate = new Date('2024-01-31T12:00:00Z');
+
+      const monthly = calculateMonthlyLayout(
+        [],
+        targetDate,
+        'Pacific/Kiritimati'
+      );
+      expect(monthly.daysInMonth).toBe(29);
+      expect(monthly.monthData.flat()[4]?.date).toBe('2024-02-01');
+
+      const weekly = calculateWeeklyLayout([], targetDate, 'Pacific/Auckland');
+      expect(weekly.dayData[0]?.date).toBe('2024-01-28');
+      expect(weekly.dayBoundaries[0]?.day).toBe('Sun');
+    });
+  });
+
+  describe('invalid dates and time zones', () => {
+    const start = new Date('2024-03-09T05:00:00Z');
+    const end = new Date('2024-03-12T04:00:00Z');
+    const data: HeatmapData[] = [
+      { date: 'garbage', value: 5 },
+      { date: '2024-03-10T12:00:00Z', value: 2 },
+    ];
+
+    it('skips entries with unparseable dates', () => {
+      ['UTC', 'America/New_York'].forEach((timeZone) => {
+        const cells = processHeatmapData(data, start, end, 'github', 'grid', {
+          timeZone,
+        });
+
+        expect(cells.find((cell) => cell.date === '2024-03-10')?.value).toBe(2);
+        expect(cells.filter((cell) => !cell.isEmpty)).toHaveLength(1);
+      });
+    });
+
+    it('falls back to device time for an unknown time zone', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const cells = processHeatmapData(data, start, end, 'github', 'grid', {
+        timeZone: 'Mars/Olympus_Mons',
+      });
+      expect(cells.length).toBeGreaterThan(0);
+      expect(toDateKey(new Date(2024, 2, 10, 12), 'Mars/Olympus_Mons')).toBe(
+        '2024-03-10'
+      );
+      expect(warn).toHaveBeenCalledTimes(1);
+
+      warn.mockRestore();
+    });
+
+    it('reads datetimes without an offset in the time zone', () => {
+      // 23:30 on 10 March in New York is 03:30 UTC on the 11th
+      expect(toInstant('2024-03-10T23:30', 'America/New_York')).toEqual(
+        new Date('2024-03-11T03:30:00Z')
+      );
+      expect(toDateKey('2024-03-10T23:30:00', 'Asia/Tokyo')).toBe('2024-03-10');
+      expect(toHourKey('2024-03-10T01:30:15.5', 'America/New_York')).toBe(
+        '2024-03-10T01:00:00'
+      );
+    });
   });
 
   describe('Edge Cases and Error Handling', () => {
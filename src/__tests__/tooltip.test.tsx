@@ -0,0 +1,257 @@
+/**
+ * Tests for tooltip triggers, controlled tooltips and placement
+ */
+
+import { StyleSheet, View as RNView } from 'react-native';
+import { act, fireEvent, render } from '@testing-library/react-native';
+import { Heatmap } from '../index';
+import Tooltip, { calculateTooltipPosition } from '../components/Tooltip';
+import { DEFAULT_THEME } from '../types';
+import type { HeatmapData, HeatmapProps } from '../types';
+
+// Mock react-native-svg
+jest.mock('react-native-svg', () => {
+  const React = require('react');
+  const { View, Text } = require('react-native');
+
+  const MockSvg = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'svg', ...props }, children);
+  const MockRect = (props: any) =>
+    React.createElement(View, { testID: 'rect', ...props });
+  const MockText = ({ children, ...props }: any) =>
+    React.createElement(Text, { testID: 'svg-text', ...props }, children);
+  const MockG = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'g', ...props }, children);
+
+  return {
+    __esModule: true,
+    default: MockSvg,
+    Svg: MockSvg,
+    Rect: MockRect,
+    Text: MockText,
+    G: MockG,
+  };
+});
+
+const data: HeatmapData[] = [{ date: '2024-03-04', value: 3 }];
+
+/**
+ * Render a one-week heatmap, Sunday 3 March to Saturday 9 March
+ */
+function renderHeatmap(props: Partial<HeatmapProps> = {}) {
+  const utils = render(
+    <Heatmap
+      data={data}
+      startDate={new Date(2024, 2, 3)}
+      endDate={new Date(2024, 2, 9)}
+      animated={false}
+      {...props}
+    />
+  );
+
+  return {
+    ...utils,
+    cell: (index: number) => utils.getAllByTestId('rect')[index]!,
+    tooltipDate: () => utils.UNSAFE_queryByType(Tooltip)?.props.data.date,
+  };
+}
+
+describe('Tooltip triggers', () => {
+  it('opens on long press by default and closes on press', () => {
+    const onTooltipChange = jest.fn();
+    const { cell, tooltipDate } = renderHeatmap({
+      showTooltip: true,
+      onTooltipChange,
+    });
+
+    fireEvent.press(cell(1));
+    expect(tooltipDate()).toBeUndefined();
+
+    fireEvent(cell(1), 'longPress');
+    expect(tooltipDate()).toBe('2024-03-04');
+
+    fireEvent.press(cell(2));
+    expect(tooltipDate()).toBeUndefined();
+    expect(onTooltipChange.mock.calls).toEqual([['2024-03-04'], [null]]);
+  });
+
+  it('toggles on press with the press trigger', () => {
+    const { cell, tooltipDate } = renderHeatmap({
+      tooltip: { enabled: true, trigger: 'press' },
+    });
+
+    fireEvent.press(cell(1));
+    expect(tooltipDate()).toBe('2024-03-04');
+
+    fireEvent.press(cell(2));
+    expect(tooltipDate()).toBe('2024-03-05');
+
+    fireEvent.press(cell(2));
+    expect(tooltipDate()).toBeUndefined();
+  });
+
+  it('follows the pointer with the hover trigger', () => {
+    const { cell, tooltipDate } = renderHeatmap({
+      tooltip: { enabled: true, trigger: 'hover' },
+    });
+
+    fireEvent(cell(3), 'pointerEnter');
+    expect(tooltipDate()).toBe('2024-03-06');
+
+    fireEvent(cell(3), 'pointerLeave');
+    expect(tooltipDate()).toBeUndefined();
+  });
+
+  it('follows focus with the focus trigger', () => {
+    const { cell, tooltipDate } = renderHeatmap({
+      tooltip: { enabled: true, trigger: 'focus' },
+    });
+
+    fireEvent(cell(1), 'longPress');
+    expect(tooltipDate()).toBeUndefined();
+
+    fireEvent(cell(4), 'focus');
+    expect(tooltipDate()).toBe('2024-03-07');
+
+    fireEvent(cell(4), 'blur');
+    expect(tooltipDate()).toBeUndefined();
+  });
+
+  it('dismisses on presses outside the cells', () => {
+    const { cell, getByTestId, queryByTestId, tooltipDate } = renderHeatmap({
+      showTooltip: true,
+    });
+
+    fireEvent(cell(1), 'longPress');
+    fireEvent.press(getByTestId('tooltip-dismiss'));
+
+    expect(tooltipDate()).toBeUndefined();
+    expect(queryByTestId('tooltip-dismiss')).toBeNull();
+  });
+
+  it('stays open on outside presses when dismissOnOutsidePress is off', () => {
+    const { cell, queryByTestId, tooltipDate } = renderHeatmap({
+      tooltip: { enabled: true, dismissOnOutsidePress: false },
+    });
+
+    fireEvent(cell(1), 'longPress');
+    fireEvent.press(cell(2));
+
+    expect(tooltipDate()).toBe('2024-03-04');
+    expect(queryByTestId('tooltip-dismiss')).toBeNull();
+  });
+
+  it('hides itself after dismissAfter', () => {
+    jest.useFakeTimers();
+    const { cell, tooltipDate } = renderHeatmap({
+      tooltip: { enabled: true, dismissAfter: 1000 },
+    });
+
+    fireEvent(cell(1), 'longPress');
+    act(() => jest.advanceTimersByTime(999));
+    expect(tooltipDate()).toBe('2024-03-04');
+
+    act(() => jest.advanceTimersByTime(1));
+    expect(tooltipDate()).toBeUndefined();
+
+    jest.useRealTimers();
+  });
+});
+
+describe('Controlled tooltip', () => {
+  it('shows the tooltip for visibleDate', () => {
+    const onTooltipChange = jest.fn();
+    const { cell, rerender, tooltipDate } = renderHeatmap({
+      tooltip: { enabled: true, visibleDate: '2024-03-08' },
+      onTooltipChange,
+    });
+
+    expect(tooltipDate()).toBe('2024-03-08');
+
+    // Interactions are reported, but the parent decides what is shown
+    fireEvent(cell(1), 'longPress');
+    expect(onTooltipChange).toHaveBeenLastCalledWith('2024-03-04');
+    expect(tooltipDate()).toBe('2024-03-08');
+
+    rerender(
+      <Heatmap
+        data={data}
+        startDate={new Date(2024, 2, 3)}
+        endDate={new Date(2024, 2, 9)}
+        animated={false}
+        tooltip={{ enabled: true, visibleDate: null }}
+      />
+    );
+    expect(tooltipDate()).toBeUndefined();
+  });
+
+  it('only opens through visibleDate with the manual trigger', () => {
+    const { cell, tooltipDate } = renderHeatmap({
+      tooltip: { enabled: true, trigger: 'manual' },
+    });
+
+    fireEvent(cell(1), 'longPress');
+    fireEvent.press(cell(1));
+    fireEvent(cell(1), 'pointerEnter');
+
+    expect(tooltipDate()).toBeUndefined();
+  });
+});
+
+describe('Tooltip placement', () => {
+  it('points the arrow at the cell when pushed against an edge', () => {
+    // Nothing fits in the container, so the tooltip is clamped to its corner
+    const position = calculateTooltipPosition(
+      { x: 30, y: 20 },
+      12,
+      { width: 120, height: 40 },
+      { width: 130, height: 50 },
+      'auto',
+      8
+    );
+
+    expect(position).toEqual({
+      x: 0,
+      y: 0,
+      position: 'top',
+      arrowOffset: 36,
+    });
+  });
+
+  it('repositions once its content is measured', () => {
+    const { UNSAFE_getAllByType } = render(
+      <Tooltip
+        data={{
+          date: '2024-03-04',
+          value: 3,
+          x: 0,
+          y: 0,
+          color: '#216e39',
+          isEmpty: false,
+          normalizedValue: 1,
+        }}
+        cellPosition={{ x: 150, y: 100 }}
+        cellSize={12}
+        config={{ enabled: true, position: 'top', showArrow: true }}
+        theme={DEFAULT_THEME}
+        containerDimensions={{ width: 400, height: 400 }}
+        visible
+      />
+    );
+    const [tooltip] = UNSAFE_getAllByType(RNView);
+    const style = () => StyleSheet.flatten(tooltip!.props.style);
+
+    // Hidden at the estimated 120px width until measured
+    expect(style()).toMatchObject({ left: 96, opacity: 0 });
+
+    fireEvent(tooltip!, 'layout', {
+      nativeEvent: { layout: { width: 200, height: 50 } },
+    });
+
+    expect(style()).toMatchObject({ left: 56, top: 42, opacity: 1 });
+    const arrow = UNSAFE_getAllByType(RNView).find(
+      (view) => StyleSheet.flatten(view.props.style).borderTopColor
+    );
+    expect(StyleSheet.flatten(arrow!.props.style).left).toBe(94);
+  });
+});
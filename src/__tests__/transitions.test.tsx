@@ -0,0 +1,251 @@
+/**
+ * Tests for value and date range transitions
+ */
+
+import { Animated } from 'react-native';
+import { act, render } from '@testing-library/react-native';
+import { Heatmap } from '../index';
+import AnimatedCell from '../components/AnimatedCell';
+import {
+  DEFAULT_ANIMATION_CONFIG,
+  calculateColor,
+  calculateTransitionColor,
+  calculateTransitionColorStops,
+  resolveColorScheme,
+  resolveTransitionConfig,
+} from '../utils';
+import type { HeatmapData, HeatmapProps, ProcessedCellData } from '../types';
+
+// Mock react-native-svg
+jest.mock('react-native-svg', () => {
+  const React = require('react');
+  const { View, Text } = require('react-native');
+
+  const MockSvg = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'svg', ...props }, children);
+  const MockRect = (props: any) =>
+    React.createElement(View, { testID: 'rect', ...props });
+  const MockText = ({ children, ...props }: any) =>
+    React.createElement(Text, { testID: 'svg-text', ...props }, children);
+  const MockG = ({ children, ...props }: any) =>
+    React.createElement(View, { testID: 'g', ...props }, children);
+
+  return {
+    __esModule: true,
+    default: MockSvg,
+    Svg: MockSvg,
+    Rect: MockRect,
+    Text: MockText,
+    G: MockG,
+  };
+});
+
+const github = resolveColorScheme('github');
+
+/**
+ * The rgba() string Animated interpolates a hex color to
+ */
+const rgba = (hex: string) => {
+  const [r, g, b] = [1, 3, 5].map((start) =>
+    parseInt(hex.slice(start, start + 2), 16)
+  );
+  return `rgba(${r}, ${g}, ${b}, 1)`;
+};
+
+describe('Transition utilities', () => {
+  it('falls back to the animation duration and easing', () => {
+    expect(
+      resolveTransitionConfig({ ...DEFAULT_ANIMATION_CONFIG, duration: 400 })
+    ).toEqual({ enabled: true, duration: 400, easing: 'ease-out' });
+    expect(
+      resolveTransitionConfig({
+        ...DEFAULT_ANIMATION_CONFIG,
+        transition: { duration: 150, easing: 'linear' },
+      })
+    ).toEqual({ enabled: true, duration: 150, easing: 'linear' });
+    expect(
+      resolveTransitionConfig({ ...DEFAULT_ANIMATION_CONFIG, enabled: false })
+        .enabled
+    ).toBe(false);
+  });
+
+  it('tweens colors along the color scheme', () => {
+    expect(calculateTransitionColor(0, 1, 0.5, github)).toBe(
+      calculateColor(0.5, github)
+    );
+    expect(calculateTransitionColor(0.25, 1, 1, github)).toBe(
+      calculateColor(1, github)
+    );
+  });
+
+  it('stops the color tween wherever it crosses a scheme color', () => {
+    expect(calculateTransitionColorStops(0.25, 1, github)).toEqual({
+      inputRange: [0, 1 / 3, 2 / 3, 1],
+      outputRange: github.colors.slice(1),
+    });
+    expect(calculateTransitionColorStops(0.6, 0.4, github)).toEqual({
+      inputRange: [0, 0.5, 1],
+      outputRange: [
+        calculateColor(0.6, github),
+        calculateColor(0.5, github),
+        calculateColor(0.4, github),
+      ],
+    });
+  });
+});
+
+describe('AnimatedCell color transitions', () => {
+  const cell = (normalizedValue: number): ProcessedCellData => ({
+    date: '2024-03-04',
+    value: normalizedValue * 10,
+    x: 0,
+    y: 0,
+    color: calculateColor(normalizedValue, github),
+    isEmpty: false,
+    normalizedValue,
+  });
+
+  const renderCell = (normalizedValue: number) => (
+    <AnimatedCell
+      data={cell(normalizedValue)}
+      index={0}
+      totalCells={1}
+      cellSize={12}
+      cellSpacing={2}
+      cellShape="square"
+      animationConfig={{
+        ...DEFAULT_ANIMATION_CONFIG,
+        transition: { duration: 200, easing: 'linear' },
+      }}
+      colorScheme={github}
+      borderColor="#ebedf0"
+      borderWidth={0.5}
+    />
+  );
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('tweens the fill to the new value', () => {
+    const { getByTestId, rerender } = render(renderCell(0.25));
+    expect(getByTestId('rect').props.fill).toBe(calculateColor(0.25, github));
+
+    rerender(renderCell(1));
+    // Still showing the old value as the tween starts
+    expect(getByTestId('rect').props.fill).toBe(
+      rgba(calculateColor(0.25, github))
+    );
+
+    act(() => jest.advanceTimersByTime(100));
+    expect(getByTestId('rect').props.fill).toBe(
+      rgba(calculateTransitionColor(0.25, 1, 0.5, github))
+    );
+
+    act(() => jest.advanceTimersByTime(150));
+    expect(getByTestId('rect').props.fill).toBe(calculateColor(1, github));
+  });
+
+  it('turns back from the color on screen', () => {
+    const { getByTestId, rerender } = render(renderCell(0.25));
+    const midway = rgba(calculateTransitionColor(0.25, 1, 0.5, github));
+
+    rerender(renderCell(1));
+    act(() => jest.advanceTimersByTime(100));
+    rerender(renderCell(0.25));
+    expect(getByTestId('rect').props.fill).toBe(midway);
+
+    act(() => jest.advanceTimersByTime(250));
+    expect(getByTestId('rect').props.fill).toBe(calculateColor(0.25, github));
+  });
+});
+
+describe('Heatmap date range transitions', () => {
+  const data: HeatmapData[] = [
+    { date: '2024-03-04', value: 3 },
+    { date: '2024-03-12', value: 7 },
+  ];
+
+  const heatmap = (props: Partial<HeatmapProps>) => (
+    <Heatmap
+      data={data}
+      startDate={new Date(2024, 2, 3)}
+      endDate={new Date(2024, 2, 9)}
+      animation={{ transition: { duration: 200 } }}
+      {...props}
+    />
+  );
+
+  const cellDates = (getAll: (type: any) => any[]) =>
+    getAll(AnimatedCell).map((cell) => cell.props.data.date);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('keeps cells mounted by date as the range shifts', () => {
+    const { UNSAFE_getAllByType, rerender } = render(heatmap({}));
+    const timing = jest.spyOn(Animated, 'timing');
+
+    rerender(
+      heatmap({
+        startDate: new Date(2024, 2, 5),
+        endDate: new Date(2024, 2, 11),
+      })
+    );
+
+    // Only the two entering and two leaving cells animate, as transitions
+    expect(timing).toHaveBeenCalledTimes(4);
+    timing.mock.calls.forEach(([, config]) =>
+      expect(config).toMatchObject({ duration: 200 })
+    );
+    expect(cellDates(UNSAFE_getAllByType)).toContain('2024-03-11');
+  });
+
+  it('plays the exit of dates that left the range', () => {
+    const { UNSAFE_getAllByType, rerender } = render(heatmap({}));
+
+    rerender(
+      heatmap({
+        startDate: new Date(2024, 2, 5),
+        endDate: new Date(2024, 2, 11),
+      })
+    );
+    const exiting = () =>
+      UNSAFE_getAllByType(AnimatedCell)
+        .filter((cell) => cell.props.exiting)
+        .map((cell) => cell.props.data.date);
+
+    expect(exiting()).toEqual(['2024-03-03', '2024-03-04']);
+
+    act(() => jest.advanceTimersByTime(300));
+    expect(exiting()).toEqual([]);
+  });
+
+  it('drops leaving cells at once without transitions', () => {
+    const { UNSAFE_getAllByType, rerender } = render(
+      heatmap({ animation: { transition: { enabled: false } } })
+    );
+
+    rerender(
+      heatmap({
+        startDate: new Date(2024, 2, 5),
+        endDate: new Date(2024, 2, 11),
+        animation: { transition: { enabled: false } },
+      })
+    );
+
+    expect(
+      UNSAFE_getAllByType(AnimatedCell).filter((cell) => cell.props.exiting)
+    ).toHaveLength(0);
+  });
+});
@@ -11,6 +11,12 @@ import {
   calculateCalendarLayout,
   calculateGridDimensions,
   calculateHeatmapDimensions,
+  calculateValueRange,
+  calculateLegendSteps,
+  denormalizeValue,
+  calculateValueDomain,
+  resolveValueScale,
+  aggregateHeatmapData,
 } from '../utils';
 import { COLOR_SCHEMES } from '../types';
 import type { HeatmapData, ColorScheme } from '../types';
@@ -27,16 +33,16 @@ describe('Date Utilities', () => {
     it('parses ISO date string correctly', () => {
       const dateString = '2024-01-15';
       const parsed = parseISODate(dateString);
-      expect(parsed.getFullYear()).toBe(2024);
-      expect(parsed.getMonth()).toBe(0); // January is 0
-      expect(parsed.getDate()).toBe(15);
+      expect(parsed.getUTCFullYear()).toBe(2024);
+      expect(parsed.getUTCMonth()).toBe(0); // January is 0
+      expect(parsed.getUTCDate()).toBe(15);
     });
   });
 
   describe('generateDateRange', () => {
     it('generates correct date range', () => {
-      const start = new Date('2024-01-01');
-      const end = new Date('2024-01-05');
+      const start = new Date(2024, 0, 1);
+      const end = new Date(2024, 0, 5);
       const range = generateDateRange(start, end);
 
       expect(range).toEqual([
@@ -49,7 +55,7 @@ describe('Date Utilities', () => {
     });
 
     it('handles single day range', () => {
-      const date = new Date('2024-01-01');
+      const date = new Date(2024, 0, 1);
       const range = generateDateRange(date, date);
       expect(range).toEqual(['2024-01-01']);
     });
@@ -66,10 +72,10 @@ describe('Date Utilities', () => {
 
   describe('getDayOfWeek', () => {
     it('returns correct day of week', () => {
-      const sunday = new Date('2024-01-07'); // Known Sunday
+      const sunday = new Date(2024, 0, 7); // Known Sunday
       expect(getDayOfWeek(sunday)).toBe(0);
 
-      const monday = new Date('2024-01-08'); // Known Monday
+      const monday = new Date(2024, 0, 8); // Known Monday
       expect(getDayOfWeek(monday)).toBe(1);
     });
   });
@@ -91,6 +97,75 @@ describe('Value Processing', () => {
     });
   });
 
+  describe('normalizeValue scales', () => {
+    it('lifts low values on the logarithmic scale', () => {
+      const log = normalizeValue(4, 0, 400, 'logarithmic');
+      expect(log).toBeGreaterThan(normalizeValue(4, 0, 400));
+      expect(log).toBeCloseTo(Math.log(5) / Math.log(401));
+      expect(normalizeValue(400, 0, 400, 'logarithmic')).toBe(1);
+    });
+
+    it('compresses low values on the exponential scale', () => {
+      expect(normalizeValue(5, 0, 10, 'exponential')).toBeLessThan(0.5);
+      expect(normalizeValue(10, 0, 10, 'exponential')).toBeCloseTo(1);
+      expect(normalizeValue(0, 0, 10, 'exponential')).toBe(0);
+    });
+
+    it('applies the square root scale', () => {
+      expect(normalizeValue(25, 0, 100, 'sqrt')).toBe(0.5);
+    });
+
+    it('buckets by rank on the quantile scale', () => {
+      const sortedValues = [1, 2, 3, 400];
+      expect(normalizeValue(1, 0, 400, 'quantile', sortedValues)).toBe(0.25);
+      expect(normalizeValue(3, 0, 400, 'quantile', sortedValues)).toBe(0.75);
+      expect(normalizeValue(400, 0, 400, 'quantile', sortedValues)).toBe(1);
+      expect(normalizeValue(0, 0, 400, 'quantile', sortedValues)).toBe(0);
+    });
+  });
+
+  describe('denormalizeValue scales', () => {
+    it('inverts every continuous scale', () => {
+      const scales = ['linear', 'logarithmic', 'exponential', 'sqrt'] as const;
+      scales.forEach((scale) => {
+        const normalized = normalizeValue(37, 0, 400, scale);
+        expect(denormalizeValue(normalized, 0, 400, scale)).toBeCloseTo(37);
+      });
+    });
+
+    it('returns the value at a rank on the quantile scale', () => {
+      const sortedValues = [1, 2, 3, 400];
+      expect(denormalizeValue(0.5, 0, 400, 'quantile', sortedValues)).toBe(2);
+      expect(denormalizeValue(1, 0, 400, 'quantile', sortedValues)).toBe(400);
+    });
+  });
+
+  describe('calculateValueDomain', () => {
+    it('collects sorted values for the quantile scale only', () => {
+      const data = [
+        { date: '2024-01-01', value: 9 },
+        { date: '2024-01-02', value: 2 },
+      ];
+      expect(calculateValueDomain(data, 'quantile').sortedValues).toEqual([
+        2, 9,
+      ]);
+      expect(calculateValueDomain(data).sortedValues).toEqual([]);
+    });
+  });
+
+  describe('resolveValueScale', () => {
+    it('prefers the explicit scale over the scheme interpolation', () => {
+      const scheme: ColorScheme = {
+        name: 'log',
+        colors: ['#ffffff', '#000000'],
+        interpolation: 'logarithmic',
+      };
+      expect(resolveValueScale(scheme)).toBe('logarithmic');
+      expect(resolveValueScale(scheme, 'sqrt')).toBe('sqrt');
+      expect(resolveValueScale('github')).toBe('linear');
+    });
+  });
+
   describe('calculateColor', () => {
     const testColorScheme: ColorScheme = {
       name: 'test',
@@ -119,6 +194,62 @@ describe('Value Processing', () => {
     });
   });
 
+  describe('denormalizeValue', () => {
+    it('maps normalized values back onto the range', () => {
+      expect(denormalizeValue(0, 0, 10)).toBe(0);
+      expect(denormalizeValue(0.5, 0, 10)).toBe(5);
+      expect(denormalizeValue(1.5, 0, 10)).toBe(10); // Clamped
+    });
+  });
+
+  describe('calculateValueRange', () => {
+    it('includes zero in the range', () => {
+      expect(
+        calculateValueRange([
+          { date: '2024-01-01', value: 3 },
+          { date: '2024-01-02', value: 9 },
+        ])
+      ).toEqual({ min: 0, max: 9 });
+    });
+
+    it('handles empty data', () => {
+      expect(calculateValueRange([])).toEqual({ min: 0, max: 0 });
+    });
+  });
+
+  describe('calculateLegendSteps', () => {
+    it('creates one step per color level', () => {
+      const steps = calculateLegendSteps('github', 0, 8);
+      expect(steps).toHaveLength(5);
+      expect(steps[0]?.color).toBe('#ebedf0');
+      expect(steps[4]?.color).toBe('#216e39');
+    });
+
+    it('derives step values and ranges from min/max', () => {
+      const steps = calculateLegendSteps('github', 0, 8);
+      expect(steps.map((step) => step.value)).toEqual([0, 2, 4, 6, 8]);
+      expect(steps[0]).toMatchObject({ min: 0, max: 1 });
+      expect(steps[2]).toMatchObject({ min: 3, max: 5 });
+      expect(steps[4]).toMatchObject({ min: 7, max: 8 });
+    });
+
+    it('places ticks on the same scale as the cells', () => {
+      const steps = calculateLegendSteps('github', 0, 400, 'logarithmic');
+      expect(steps[2]?.value).toBeCloseTo(Math.sqrt(401) - 1);
+      expect(steps[4]?.value).toBeCloseTo(400);
+    });
+
+    it('matches the colors assigned to cells', () => {
+      const steps = calculateLegendSteps('heat', 0, 14);
+      const scheme = resolveColorScheme('heat');
+      steps.forEach((step) => {
+        expect(step.color).toBe(
+          calculateColor(normalizeValue(step.value, 0, 14), scheme)
+        );
+      });
+    });
+  });
+
   describe('resolveColorScheme', () => {
     it('resolves string color scheme', () => {
       const resolved = resolveColorScheme('github');
@@ -151,8 +282,8 @@ describe('Data Processing', () => {
 
   describe('processHeatmapData', () => {
     it('processes calendar layout correctly', () => {
-      const startDate = new Date('2024-01-01');
-      const endDate = new Date('2024-01-03');
+      const startDate = new Date(2024, 0, 1);
+      const endDate = new Date(2024, 0, 3);
 
       const processed = processHeatmapData(
         sampleData,
@@ -170,8 +301,8 @@ describe('Data Processing', () => {
     });
 
     it('processes grid layout correctly', () => {
-      const startDate = new Date('2024-01-01');
-      const endDate = new Date('2024-01-03');
+      const startDate = new Date(2024, 0, 1);
+      const endDate = new Date(2024, 0, 3);
 
       const processed = processHeatmapData(
         sampleData,
@@ -189,8 +320,8 @@ describe('Data Processing', () => {
     });
 
     it('processes compact layout correctly', () => {
-      const startDate = new Date('2024-01-01');
-      const endDate = new Date('2024-01-03');
+      const startDate = new Date(2024, 0, 1);
+      const endDate = new Date(2024, 0, 3);
 
       const processed = processHeatmapData(
         sampleData,
@@ -206,9 +337,63 @@ describe('Data Processing', () => {
       expect(processed[2]?.y).toBe(0);
     });
 
+    it('applies the configured value scale', () => {
+      const startDate = new Date(2024, 0, 1);
+      const endDate = new Date(2024, 0, 3);
+      const heavyTailed: HeatmapData[] = [
+        { date: '2024-01-01', value: 400 },
+        { date: '2024-01-02', value: 4 },
+      ];
+
+      const linear = processHeatmapData(
+        heavyTailed,
+        startDate,
+        endDate,
+        'github',
+        'grid'
+      );
+      const logarithmic = processHeatmapData(
+        heavyTailed,
+        startDate,
+        endDate,
+        'github',
+        'grid',
+        { scale: 'logarithmic' }
+      );
+
+      expect(logarithmic[1]!.normalizedValue).toBeGreaterThan(
+        linear[1]!.normalizedValue
+      );
+      expect(logarithmic[1]!.color).not.toBe(linear[1]!.color);
+    });
+
+    it('aggregates duplicate dates before normalizing', () => {
+      const startDate = new Date(2024, 0, 1);
+      const endDate = new Date(2024, 0, 2);
+      const events: HeatmapData[] = [
+        { date: '2024-01-01', value: 1 },
+        { date: '2024-01-01', value: 1 },
+        { date: '2024-01-02', value: 4 },
+      ];
+
+      const processed = processHeatmapData(
+        events,
+        startDate,
+        endDate,
+        'github',
+        'grid',
+        { aggregate: 'count' }
+      );
+
+      expect(processed[0]?.value).toBe(2);
+      expect(processed[0]?.entries).toHaveLength(2);
+      expect(processed[0]?.normalizedValue).toBe(1);
+      expect(processed[1]?.value).toBe(1);
+    });
+
     it('handles missing data points', () => {
-      const startDate = new Date('2024-01-01');
-      const endDate = new Date('2024-01-05');
+      const startDate = new Date(2024, 0, 1);
+      const endDate = new Date(2024, 0, 5);
 
       const processed = processHeatmapData(
         sampleData,
@@ -223,10 +408,51 @@ describe('Data Processing', () => {
     });
   });
 
+  describe('aggregateHeatmapData', () => {
+    const events: HeatmapData[] = [
+      { date: '2024-01-01', value: 2, metadata: { repo: 'a' } },
+      { date: '2024-01-01', value: 6, metadata: { repo: 'b', pr: 1 } },
+      { date: '2024-01-01', value: 1 },
+      { date: '2024-01-02', value: 5 },
+    ];
+
+    it('sums entries sharing a date by default', () => {
+      const aggregated = aggregateHeatmapData(events);
+      expect(aggregated).toHaveLength(2);
+      expect(aggregated[0]?.value).toBe(9);
+      expect(aggregated[1]?.value).toBe(5);
+    });
+
+    it('supports the built-in reducers', () => {
+      const valueFor = (aggregate: any) =>
+        aggregateHeatmapData(events, aggregate)[0]?.value;
+
+      expect(valueFor('count')).toBe(3);
+      expect(valueFor('mean')).toBe(3);
+      expect(valueFor('max')).toBe(6);
+      expect(valueFor('min')).toBe(1);
+    });
+
+    it('supports custom reducers', () => {
+      const aggregated = aggregateHeatmapData(
+        events,
+        (values, entries) => values.length * 100 + entries.length
+      );
+      expect(aggregated[0]?.value).toBe(303);
+    });
+
+    it('keeps source entries and merges metadata', () => {
+      const [first] = aggregateHeatmapData(events);
+      expect(first?.entries).toHaveLength(3);
+      expect(first?.entries[1]).toBe(events[1]);
+      expect(first?.metadata).toEqual({ repo: 'b', pr: 1 });
+    });
+  });
+
   describe('calculateCalendarLayout', () => {
     it('calculates calendar layout correctly', () => {
-      const startDate = new Date('2024-01-01');
-      const endDate = new Date('2024-01-14');
+      const startDate = new Date(2024, 0, 1);
+      const endDate = new Date(2024, 0, 14);
 
       const processed = processHeatmapData(
         sampleData,
@@ -242,6 +468,70 @@ describe('Data Processing', () => {
       expect(Array.isArray(layout.weekData)).toBe(true);
       expect(Array.isArray(layout.monthBoundaries)).toBe(true);
     });
+
+    it('aligns columns to the configured first day of the week', () => {
+      // 2024-01-03 is a Wednesday
+      const startDate = new Date('2024-01-03T12:00:00Z');
+      const endDate = new Date('2024-01-09T12:00:00Z');
+      const options = { timeZone: 'UTC', weekStartsOn: 1 as const };
+
+      const processed = processHeatmapData(
+        [],
+        startDate,
+        endDate,
+        'github',
+        'calendar',
+        options
+      );
+
+      expect(processed[0]).toMatchObject({ x: 0, y: 2, dayOfWeek: 3 });
+      // Sunday closes the first column, Monday opens the second
+      expect(processed[4]).toMatchObject({ x: 0, y: 6, dayOfWeek: 0 });
+      expect(processed[5]).toMatchObject({ x: 1, y: 0, dayOfWeek: 1 });
+
+      const layout = calculateCalendarLayout(
+        processed,
+        startDate,
+        'UTC',
+        options
+      );
+      expect(layout.weekData[0]?.[0]?.date).toBe('2024-01-01');
+      expect(layout.weekData[1]?.[0]?.date).toBe('2024-01-08');
+    });
+
+    it('transposes weeks into rows for vertical calendars', () => {
+      // 2024-01-03 is a Wednesday
+      const startDate = new Date('2024-01-03T12:00:00Z');
+      const endDate = new Date('2024-02-05T12:00:00Z');
+
+      const processed = processHeatmapData(
+        [],
+        startDate,
+        endDate,
+        'github',
+        'calendar',
+        { timeZone: 'UTC', orientation: 'vertical' }
+      );
+
+      expect(processed[0]).toMatchObject({ x: 3, y: 0 });
+      expect(processed[4]).toMatchObject({ x: 0, y: 1 });
+
+      const layout = calculateCalendarLayout(
+        processed,
+        startDate,
+        'UTC',
+        {},
+        'en-US',
+        'vertical'
+      );
+      expect(layout.weekData).toHaveLength(6);
+      expect(layout.weekData[0]?.[0]).toMatchObject({
+        date: '2023-12-31',
+        x: 0,
+        y: 0,
+      });
+      expect(layout.monthBoundaries[0]).toMatchObject({ month: 'Jan', x: 0 });
+    });
   });
 });
 
@@ -305,6 +595,19 @@ describe('Dimension Calculations', () => {
       expect(dimensions.height).toBeGreaterThan(0);
     });
 
+    it('swaps calendar width and height when vertical', () => {
+      const dimensions = calculateHeatmapDimensions(
+        sampleProcessedData.map((cell) => ({ ...cell, x: cell.y, y: 2 })),
+        12,
+        2,
+        'calendar',
+        undefined,
+        'vertical'
+      );
+
+      expect(dimensions).toEqual({ width: 7 * 14 - 2, height: 3 * 14 - 2 });
+    });
+
     it('calculates grid dimensions', () => {
       const dimensions = calculateHeatmapDimensions(
         sampleProcessedData,
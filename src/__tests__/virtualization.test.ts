@@ -5,7 +5,9 @@
 import {
   DEFAULT_VIRTUALIZATION_CONFIG,
   calculateVisibleRange,
+  calculateVisibleGridBounds,
   calculateOptimalVirtualization,
+  SpatialIndex,
   LazyLoader,
   MemoryOptimizer,
   PerformanceMonitor,
@@ -76,6 +78,155 @@ describe('Virtualization Utilities', () => {
       expect(range.startIndex).toBeGreaterThanOrEqual(0);
       expect(range.endIndex).toBeLessThanOrEqual(mockCells.length - 1);
     });
+
+    it('should report the indices of the visible cells', () => {
+      const config = {
+        ...DEFAULT_VIRTUALIZATION_CONFIG,
+        enabled: true,
+        threshold: 50,
+        bufferSize: 0,
+        cellSize: 10,
+        cellSpacing: 0,
+      };
+      const range = calculateVisibleRange(
+        mockCells,
+        { width: 20, height: 10, offsetX: 15, offsetY: 15, scale: 1 },
+        config
+      );
+
+      // Columns 1-3 and rows 1-2 overlap the viewport
+      expect(range.visibleIndices).toEqual([11, 12, 13, 21, 22, 23]);
+      expect(range.visibleCells[3]).toBe(mockCells[21]);
+      expect(range.startIndex).toBe(11);
+      expect(range.endIndex).toBe(23);
+    });
+  });
+
+  describe('calculateVisibleGridBounds', () => {
+    const config = {
+      ...DEFAULT_VIRTUALIZATION_CONFIG,
+      enabled: true,
+      bufferSize: 1,
+    };
+
+    it('should cover the viewport plus the buffer', () => {
+      const bounds = calculateVisibleGridBounds(
+        { width: 28, height: 14, offsetX: 42, offsetY: 0, scale: 1 },
+        config
+      );
+
+      expect(bounds).toEqual({
+        minColumn: 1,
+        maxColumn: 6,
+        minRow: -1,
+        maxRow: 2,
+      });
+    });
+
+    it('should shrink the covered area when zoomed in', () => {
+      const bounds = calculateVisibleGridBounds(
+        { width: 56, height: 14, offsetX: 42, offsetY: 0, scale: 2 },
+        config
+      );
+
+      expect(bounds.maxColumn).toBe(6);
+    });
+  });
+
+  describe('SpatialIndex', () => {
+    it('should return sorted indices for non-contiguous regions', () => {
+      const index = new SpatialIndex(mockCells);
+
+      expect(
+        index.query({ minColumn: 8, maxColumn: 20, minRow: 1, maxRow: 2 })
+      ).toEqual([18, 19, 28, 29]);
+      expect(
+        index.query({ minColumn: 20, maxColumn: 30, minRow: 0, maxRow: 9 })
+      ).toEqual([]);
+    });
+
+    it('should keep cells that share a grid slot', () => {
+      const shared = [mockCells[0]!, { ...mockCells[0]!, value: 5 }];
+      const index = new SpatialIndex(shared);
+
+      expect(
+        index.query({ minColumn: 0, maxColumn: 0, minRow: 0, maxRow: 0 })
+      ).toEqual([0, 1]);
+    });
+
+    describe('benchmark at 100k cells', () => {
+      // 2,000 columns of 50 rows, in row-major order so visible cells are
+      // scattered across the array
+      const columns = 2000;
+      const rows = 50;
+      const cells: ProcessedCellData[] = Array.from(
+        { length: columns * rows },
+        (_, i) => ({
+          date: `cell-${i}`,
+          value: i,
+          x: i % columns,
+          y: Math.floor(i / columns),
+          color: '#000000',
+          isEmpty: false,
+          normalizedValue: 0,
+        })
+      );
+      const config = {
+        ...DEFAULT_VIRTUALIZATION_CONFIG,
+        enabled: true,
+        bufferSize: 2,
+      };
+      const viewports: Viewport[] = Array.from({ length: 50 }, (_, i) => ({
+        width: 400,
+        height: 300,
+        offsetX: i * 500,
+        offsetY: 100,
+        scale: 1,
+      }));
+
+      it('should match a linear scan of every cell', () => {
+        const index = new SpatialIndex(cells);
+
+        viewports.slice(0, 5).forEach((viewport) => {
+          const range = calculateVisibleRange(cells, viewport, config, index);
+          const { bounds } = range;
+          const expected = cells.flatMap((cell, i) =>
+            cell.x >= bounds.minColumn &&
+            cell.x <= bounds.maxColumn &&
+            cell.y >= bounds.minRow &&
+            cell.y <= bounds.maxRow
+              ? [i]
+              : []
+          );
+
+          expect(range.visibleIndices).toEqual(expected);
+          expect(range.startIndex).toBe(expected[0]);
+          expect(range.endIndex).toBe(expected[expected.length - 1]);
+        });
+      });
+
+      it('should only look up the grid slots a viewport covers', () => {
+        const index = new SpatialIndex(cells);
+        const getBucket = jest.spyOn(
+          SpatialIndex.prototype as any,
+          'getBucket'
+        );
+
+        viewports.forEach((viewport) => {
+          getBucket.mockClear();
+          const visible = index.query(
+            calculateVisibleGridBounds(viewport, config)
+          );
+
+          // One cell per slot: every lookup finds a visible cell, where a
+          // scan would test all 100k cells
+          expect(getBucket).toHaveBeenCalledTimes(visible.length);
+          expect(visible.length).toBeLessThan(cells.length / 50);
+        });
+
+        getBucket.mockRestore();
+      });
+    });
   });
 
   describe('calculateOptimalVirtualization', () => {
@@ -3,13 +3,30 @@
  * Provides smooth animations and enhanced touch handling
  */
 
-import React, { useEffect, useRef, useCallback } from 'react';
-import { Animated, TouchableOpacity } from 'react-native';
+import React, {
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useCallback,
+  useMemo,
+  useState,
+} from 'react';
+import { Animated, StyleSheet, TouchableOpacity } from 'react-native';
 import { Rect } from 'react-native-svg';
-import type { ProcessedCellData, AnimationConfig, CellShape } from '../types';
+import type {
+  ProcessedCellData,
+  AnimationConfig,
+  CellShape,
+  ColorScheme,
+  HighlightConfig,
+  LayoutDirection,
+} from '../types';
+import { getColumnOffset, calculateTransitionColorStops } from '../utils';
 import {
-  getEntryAnimationStyle,
+  getAnimatedEntryValues,
   calculateStaggerDelay,
+  resolveTransitionConfig,
+  EASING_FUNCTIONS,
 } from '../utils/animation';
 import { triggerHapticFeedback, DoubleTapDetector } from '../utils/gestures';
 
@@ -24,14 +41,37 @@ interface AnimatedCellProps {
   cellSize: number;
   /** Cell spacing */
   cellSpacing: number;
+  /** Layout direction; 'rtl' mirrors the cell across contentWidth */
+  direction?: LayoutDirection;
+  /** Width of the cell area, used to mirror right-to-left layouts */
+  contentWidth?: number;
   /** Cell shape */
   cellShape: CellShape;
   /** Animation configuration */
   animationConfig?: AnimationConfig;
+  /** Delay and duration of the entry, from the heatmap's stagger schedule */
+  entryTiming?: { delay: number; duration: number };
+  /** Color scheme the cell's color tweens through when its value changes */
+  colorScheme?: ColorScheme;
+  /** The cell's date entered the data after the first render */
+  entering?: boolean;
+  /** The cell's date left the data; it plays its exit and calls onExited */
+  exiting?: boolean;
+  onExited?: (data: ProcessedCellData) => void;
+  /** Resolved highlight settings; the cell is never highlighted without them */
+  highlight?: Required<HighlightConfig>;
+  /** Keep playing the highlight, e.g. while the cell is live */
+  highlightActive?: boolean;
+  /** Plays the highlight once each time it changes */
+  highlightCount?: number;
   /** Border color */
   borderColor: string;
   /** Border width */
   borderWidth: number;
+  /** Whether the cell is selected */
+  selected?: boolean;
+  /** Outline color of a selected cell */
+  selectionColor?: string;
   /** Custom cell styles */
   cellStyle?: any;
   /** Touch handlers */
@@ -40,12 +80,69 @@ interface AnimatedCellProps {
   onPressIn?: (data: ProcessedCellData, index: number) => void;
   onPressOut?: (data: ProcessedCellData, index: number) => void;
   onDoublePress?: (data: ProcessedCellData, index: number) => void;
+  /** Pointer hover handlers (react-native-web pointer events) */
+  onHoverIn?: (data: ProcessedCellData, index: number) => void;
+  onHoverOut?: (data: ProcessedCellData, index: number) => void;
+  /** Whether Tab reaches the cell; the heatmap makes one cell its tab stop */
+  tabStop?: boolean;
+  /** Focus handlers */
+  onFocus?: (data: ProcessedCellData, index: number) => void;
+  onBlur?: (data: ProcessedCellData, index: number) => void;
+  /** Screen reader label; the cell is only accessible when given */
+  accessibilityLabel?: string;
+  /** Adjustable and custom actions offered to screen readers */
+  accessibilityActions?: Array<{ name: string; label: string }>;
+  /** Handle adjustable and custom accessibility actions */
+  onAccessibilityAction?: (
+    data: ProcessedCellData,
+    index: number,
+    actionName: string
+  ) => void;
+  /** Receives the rendered cell, e.g. to move accessibility focus to it */
+  cellRef?: (node: any) => void;
   /** Haptic feedback enabled */
   hapticFeedback?: boolean;
   /** Whether to use SVG rendering */
   useSvg?: boolean;
 }
 
+/**
+ * SVG rect that takes Animated values as props
+ */
+const AnimatedRect = Animated.createAnimatedComponent(Rect);
+const AnimatedTouchableOpacity =
+  Animated.createAnimatedComponent(TouchableOpacity);
+
+/**
+ * Outline width of selected cells
+ */
+export const SELECTED_OUTLINE_WIDTH = 2;
+
+/**
+ * Props that let dated cells take keyboard focus on web and TV; only the tab
+ * stop is reached with Tab, the others through the arrow keys
+ */
+export function getCellFocusProps(tabStop: boolean) {
+  return { focusable: true, tabIndex: tabStop ? 0 : -1 } as const;
+}
+
+/**
+ * Gap between a cell and its highlight glow, and the glow's width
+ */
+const HIGHLIGHT_GLOW_OFFSET = 2;
+const HIGHLIGHT_GLOW_WIDTH = 2;
+
+/**
+ * Screen reader actions on cells: swipe up/down moves a day, the custom
+ * actions move a week
+ */
+export const CELL_ACCESSIBILITY_ACTIONS = [
+  { name: 'increment', label: 'Next day' },
+  { name: 'decrement', label: 'Previous day' },
+  { name: 'nextWeek', label: 'Next week' },
+  { name: 'previousWeek', label: 'Previous week' },
+];
+
 /**
  * Animated Cell Component
  */
@@ -55,16 +152,37 @@ const AnimatedCell: React.FC<AnimatedCellProps> = ({
   totalCells,
   cellSize,
   cellSpacing,
+  direction = 'ltr',
+  contentWidth = 0,
   cellShape,
   animationConfig,
+  entryTiming,
+  colorScheme,
+  entering = false,
+  exiting = false,
+  onExited,
+  highlight,
+  highlightActive = false,
+  highlightCount = 0,
   borderColor,
   borderWidth,
+  selected = false,
+  selectionColor = borderColor,
   cellStyle,
   onPress,
   onLongPress,
   onPressIn,
   onPressOut,
   onDoublePress,
+  onHoverIn,
+  onHoverOut,
+  tabStop = true,
+  onFocus,
+  onBlur,
+  accessibilityLabel,
+  accessibilityActions = CELL_ACCESSIBILITY_ACTIONS,
+  onAccessibilityAction,
+  cellRef,
   hapticFeedback = false,
   useSvg = true,
 }) => {
@@ -73,25 +191,218 @@ const AnimatedCell: React.FC<AnimatedCellProps> = ({
   const doubleTapDetector = useRef(new DoubleTapDetector()).current;
 
   // Calculate position
-  const x = data.x * (cellSize + cellSpacing);
+  const x = getColumnOffset(
+    data.x,
+    cellSize,
+    cellSpacing,
+    contentWidth,
+    direction
+  );
   const y = data.y * (cellSize + cellSpacing);
 
-  // Entry animation
+  // Selected cells are outlined instead of bordered
+  const outlineColor = selected ? selectionColor : borderColor;
+  const outlineWidth = selected ? SELECTED_OUTLINE_WIDTH : borderWidth;
+
+  const transition = useMemo(
+    () => (animationConfig ? resolveTransitionConfig(animationConfig) : null),
+    [animationConfig]
+  );
+  const playsEntryAnimation =
+    !!animationConfig?.enabled && animationConfig.entryAnimation !== 'none';
+  // SVG props are animated from JS
+  const useNativeDriver = !useSvg && (animationConfig?.useNativeDriver ?? true);
+
+  // Entry animation, staggered on the first render; dates entering later
+  // play it as a transition
+  const enteredRef = useRef(false);
   useEffect(() => {
-    if (!animationConfig?.enabled) {
+    if (
+      !animationConfig ||
+      !playsEntryAnimation ||
+      exiting ||
+      (entering && !transition?.enabled)
+    ) {
       animatedValue.setValue(1);
       return;
     }
-
-    const delay = calculateStaggerDelay(index, totalCells, animationConfig);
+    if (enteredRef.current) {
+      return;
+    }
+    enteredRef.current = true;
 
     Animated.timing(animatedValue, {
       toValue: 1,
-      duration: animationConfig.duration,
-      delay,
-      useNativeDriver: animationConfig.useNativeDriver ?? true,
+      useNativeDriver,
+      ...(entering && transition
+        ? {
+            duration: transition.duration,
+            easing: EASING_FUNCTIONS[transition.easing],
+          }
+        : {
+            duration: entryTiming?.duration ?? animationConfig.duration,
+            delay:
+              entryTiming?.delay ??
+              calculateStaggerDelay(index, totalCells, animationConfig),
+          }),
     }).start();
-  }, [animatedValue, index, totalCells, animationConfig]);
+  }, [
+    animatedValue,
+    index,
+    totalCells,
+    animationConfig,
+    entryTiming,
+    playsEntryAnimation,
+    entering,
+    exiting,
+    transition,
+    useNativeDriver,
+  ]);
+
+  // Exit transition; the parent drops the cell once it has played
+  useEffect(() => {
+    if (!exiting) {
+      return undefined;
+    }
+    if (!animationConfig || !playsEntryAnimation || !transition?.enabled) {
+      onExited?.(data);
+      return undefined;
+    }
+
+    Animated.timing(animatedValue, {
+      toValue: 0,
+      duration: transition.duration,
+      easing: EASING_FUNCTIONS[transition.easing],
+      useNativeDriver,
+    }).start(({ finished }) => {
+      if (finished) {
+        onExited?.(data);
+      }
+    });
+    return () => animatedValue.stopAnimation();
+  }, [
+    exiting,
+    animationConfig,
+    playsEntryAnimation,
+    transition,
+    useNativeDriver,
+    animatedValue,
+    data,
+    onExited,
+  ]);
+
+  // Highlights loop while the cell is active and play once per count change
+  const highlightValue = useRef(new Animated.Value(0)).current;
+  const highlightCountRef = useRef(highlightCount);
+  useEffect(() => {
+    const countChanged = highlightCount !== highlightCountRef.current;
+    highlightCountRef.current = highlightCount;
+    if (!highlight?.enabled) {
+      return undefined;
+    }
+
+    const play = () =>
+      Animated.sequence([
+        Animated.timing(highlightValue, {
+          toValue: 1,
+          duration: highlight.duration / 2,
+          easing: EASING_FUNCTIONS['ease-out'],
+          useNativeDriver,
+        }),
+        Animated.timing(highlightValue, {
+          toValue: 0,
+          duration: highlight.duration / 2,
+          easing: EASING_FUNCTIONS['ease-in'],
+          useNativeDriver,
+        }),
+      ]);
+
+    if (highlightActive) {
+      const loop = Animated.loop(play());
+      loop.start();
+      return () => {
+        loop.stop();
+        highlightValue.setValue(0);
+      };
+    }
+    if (countChanged) {
+      play().start();
+    }
+    return undefined;
+  }, [
+    highlight,
+    highlightActive,
+    highlightCount,
+    highlightValue,
+    useNativeDriver,
+  ]);
+
+  // Colors tween from the value on screen when the data changes; the fill
+  // is an interpolation of colorProgress, so frames do not re-render
+  const colorTransitions = !!colorScheme && !!transition?.enabled;
+  const colorProgress = useRef(new Animated.Value(1)).current;
+  const [colorTween, setColorTween] = useState({
+    from: data.normalizedValue,
+    to: data.normalizedValue,
+  });
+
+  // A new value retargets the tween before paint, starting from the value
+  // the running tween has reached
+  useLayoutEffect(() => {
+    if (colorTween.to === data.normalizedValue) {
+      return;
+    }
+    let progress = 1;
+    colorProgress.stopAnimation((value) => {
+      progress = value;
+    });
+    const shown =
+      colorTween.from + (colorTween.to - colorTween.from) * progress;
+    setColorTween({
+      from: colorTransitions ? shown : data.normalizedValue,
+      to: data.normalizedValue,
+    });
+  }, [
+    colorTween.from,
+    colorTween.to,
+    data.normalizedValue,
+    colorTransitions,
+    colorProgress,
+  ]);
+
+  // Restarted before paint, so the new tween never shows a stale progress
+  useLayoutEffect(() => {
+    if (colorTween.from === colorTween.to || !transition) {
+      return undefined;
+    }
+
+    colorProgress.setValue(0);
+    Animated.timing(colorProgress, {
+      toValue: 1,
+      duration: transition.duration,
+      easing: EASING_FUNCTIONS[transition.easing],
+      useNativeDriver: false,
+    }).start(({ finished }) => {
+      if (finished) {
+        setColorTween((tween) => ({ ...tween, from: tween.to }));
+      }
+    });
+    return () => colorProgress.stopAnimation();
+  }, [colorTween.from, colorTween.to, transition, colorProgress]);
+
+  const fill = useMemo(
+    () =>
+      colorScheme && colorTween.from !== colorTween.to
+        ? colorProgress.interpolate(
+            calculateTransitionColorStops(
+              colorTween.from,
+              colorTween.to,
+              colorScheme
+            )
+          )
+        : data.color,
+    [colorScheme, colorTween.from, colorTween.to, colorProgress, data.color]
+  );
 
   // Handle press with haptic feedback
   const handlePress = useCallback(() => {
@@ -128,26 +439,67 @@ const AnimatedCell: React.FC<AnimatedCellProps> = ({
   }, [data, index, onLongPress, hapticFeedback]);
 
   // Handle press in
+  const pressFeedback = animationConfig?.pressFeedback ?? true;
   const handlePressIn = useCallback(() => {
     // Scale animation
-    Animated.spring(scaleValue, {
-      toValue: 0.95,
-      useNativeDriver: true,
-    }).start();
+    if (pressFeedback) {
+      Animated.spring(scaleValue, {
+        toValue: 0.95,
+        useNativeDriver,
+      }).start();
+    }
 
     onPressIn?.(data, index);
-  }, [data, index, onPressIn, scaleValue]);
+  }, [data, index, onPressIn, scaleValue, pressFeedback, useNativeDriver]);
 
   // Handle press out
   const handlePressOut = useCallback(() => {
     // Scale animation
-    Animated.spring(scaleValue, {
-      toValue: 1,
-      useNativeDriver: true,
-    }).start();
+    if (pressFeedback) {
+      Animated.spring(scaleValue, {
+        toValue: 1,
+        useNativeDriver,
+      }).start();
+    }
 
     onPressOut?.(data, index);
-  }, [data, index, onPressOut, scaleValue]);
+  }, [data, index, onPressOut, scaleValue, pressFeedback, useNativeDriver]);
+
+  // Hover and focus handlers
+  const handleHoverIn = useCallback(
+    () => onHoverIn?.(data, index),
+    [data, index, onHoverIn]
+  );
+  const handleHoverOut = useCallback(
+    () => onHoverOut?.(data, index),
+    [data, index, onHoverOut]
+  );
+  const handleFocus = useCallback(
+    () => onFocus?.(data, index),
+    [data, index, onFocus]
+  );
+  const handleBlur = useCallback(
+    () => onBlur?.(data, index),
+    [data, index, onBlur]
+  );
+
+  // Accessible cells are adjustable, so swipes move between days
+  const handleAccessibilityAction = useCallback(
+    (event: { nativeEvent: { actionName: string } }) =>
+      onAccessibilityAction?.(data, index, event.nativeEvent.actionName),
+    [data, index, onAccessibilityAction]
+  );
+  const accessibilityProps = accessibilityLabel
+    ? {
+        accessible: true,
+        accessibilityLabel,
+        accessibilityRole: 'adjustable' as const,
+        accessibilityState: { selected },
+        accessibilityActions,
+        onAccessibilityAction: handleAccessibilityAction,
+      }
+    : { accessible: false };
+  const focusProps = data.date && !exiting ? getCellFocusProps(tabStop) : {};
 
   // Get cell border radius
   const getBorderRadius = useCallback(() => {
@@ -161,13 +513,43 @@ const AnimatedCell: React.FC<AnimatedCellProps> = ({
     }
   }, [cellShape, cellSize]);
 
-  // Animation styles
-  const animationStyles = animationConfig?.enabled
-    ? getEntryAnimationStyle(
-        animationConfig.entryAnimation,
-        animatedValue as any
-      )
-    : {};
+  const entryAnimation = animationConfig?.enabled
+    ? animationConfig.entryAnimation
+    : 'none';
+  // Entry opacity, scale and slide, with the press spring and highlight
+  // pulse scaling on top
+  const highlightAnimation = highlight?.enabled ? highlight.animation : null;
+  const animatedValues = useMemo(() => {
+    const entry = getAnimatedEntryValues(entryAnimation, animatedValue);
+    const pulse =
+      highlightAnimation === 'pulse'
+        ? highlightValue.interpolate({
+            inputRange: [0, 1],
+            outputRange: [1, 1.25],
+          })
+        : 1;
+    return {
+      ...entry,
+      scale: Animated.multiply(
+        Animated.multiply(entry.scale, scaleValue),
+        pulse
+      ),
+    };
+  }, [
+    entryAnimation,
+    animatedValue,
+    scaleValue,
+    highlightAnimation,
+    highlightValue,
+  ]);
+
+  // Glows and flashes are drawn over cells once they have been highlighted
+  const highlightOverlay =
+    highlight &&
+    (highlightAnimation === 'glow' || highlightAnimation === 'flash') &&
+    (highlightActive || highlightCount > 0)
+      ? highlightAnimation
+      : null;
 
   if (useSvg) {
     // SVG rendering (for integration with existing SVG-based heatmap)
@@ -176,30 +558,85 @@ const AnimatedCell: React.FC<AnimatedCellProps> = ({
       y,
       width: cellSize,
       height: cellSize,
-      fill: data.color,
-      stroke: borderColor,
-      strokeWidth: borderWidth,
+      fill,
+      stroke: outlineColor,
+      strokeWidth: outlineWidth,
+      // Cells scale around their center
+      opacity: animatedValues.opacity,
+      scale: animatedValues.scale,
+      translateY: animatedValues.translateY,
+      originX: x + cellSize / 2,
+      originY: y + cellSize / 2,
       onPress: handlePress,
       onLongPress: handleLongPress,
+      onPressIn: handlePressIn,
+      onPressOut: handlePressOut,
+      onPointerEnter: handleHoverIn,
+      onPointerLeave: handleHoverOut,
+      onFocus: handleFocus,
+      onBlur: handleBlur,
+      ...focusProps,
+      ...accessibilityProps,
       ...cellStyle,
+      // Leaving cells no longer take touches
+      ...(exiting ? { pointerEvents: 'none' as const } : {}),
     };
 
+    let cell;
     if (cellShape === 'circle') {
-      return (
-        <Rect
-          key={`cell-${index}`}
+      cell = (
+        <AnimatedRect
+          ref={cellRef}
           {...cellProps}
           rx={cellSize / 2}
           ry={cellSize / 2}
         />
       );
+    } else if (cellShape === 'rounded') {
+      cell = <AnimatedRect ref={cellRef} {...cellProps} rx={2} ry={2} />;
+    } else {
+      cell = <AnimatedRect ref={cellRef} {...cellProps} />;
     }
 
-    if (cellShape === 'rounded') {
-      return <Rect key={`cell-${index}`} {...cellProps} rx={2} ry={2} />;
+    if (!highlightOverlay || !highlight) {
+      return cell;
     }
 
-    return <Rect key={`cell-${index}`} {...cellProps} />;
+    const radius = getBorderRadius();
+    return (
+      <>
+        {cell}
+        {highlightOverlay === 'glow' ? (
+          <AnimatedRect
+            testID="cell-highlight"
+            x={x - HIGHLIGHT_GLOW_OFFSET}
+            y={y - HIGHLIGHT_GLOW_OFFSET}
+            width={cellSize + HIGHLIGHT_GLOW_OFFSET * 2}
+            height={cellSize + HIGHLIGHT_GLOW_OFFSET * 2}
+            rx={radius ? radius + HIGHLIGHT_GLOW_OFFSET : 0}
+            ry={radius ? radius + HIGHLIGHT_GLOW_OFFSET : 0}
+            fill="none"
+            stroke={highlight.color}
+            strokeWidth={HIGHLIGHT_GLOW_WIDTH}
+            opacity={highlightValue}
+            pointerEvents="none"
+          />
+        ) : (
+          <AnimatedRect
+            testID="cell-highlight"
+            x={x}
+            y={y}
+            width={cellSize}
+            height={cellSize}
+            rx={radius}
+            ry={radius}
+            fill={highlight.color}
+            opacity={highlightValue}
+            pointerEvents="none"
+          />
+        )}
+      </>
+    );
   }
 
   // React Native View rendering (for enhanced animations)
@@ -212,18 +649,27 @@ const AnimatedCell: React.FC<AnimatedCellProps> = ({
           top: y,
           width: cellSize,
           height: cellSize,
-          transform: [{ scale: scaleValue }],
+          opacity: animatedValues.opacity,
+          transform: [
+            { translateY: animatedValues.translateY },
+            { scale: animatedValues.scale },
+          ],
         },
-        animationStyles,
       ]}
+      onPointerEnter={handleHoverIn}
+      onPointerLeave={handleHoverOut}
+      pointerEvents={exiting ? 'none' : 'auto'}
     >
-      <TouchableOpacity
+      <AnimatedTouchableOpacity
+        ref={cellRef}
+        {...focusProps}
+        {...accessibilityProps}
         style={[
           {
             flex: 1,
-            backgroundColor: data.color,
-            borderColor: borderColor,
-            borderWidth: borderWidth,
+            backgroundColor: fill,
+            borderColor: outlineColor,
+            borderWidth: outlineWidth,
             borderRadius: getBorderRadius(),
           },
           cellStyle,
@@ -232,11 +678,49 @@ const AnimatedCell: React.FC<AnimatedCellProps> = ({
         onLongPress={handleLongPress}
         onPressIn={handlePressIn}
         onPressOut={handlePressOut}
+        onFocus={handleFocus}
+        onBlur={handleBlur}
         delayLongPress={500}
         activeOpacity={0.8}
       />
+      {highlightOverlay && highlight && (
+        <Animated.View
+          testID="cell-highlight"
+          pointerEvents="none"
+          style={
+            highlightOverlay === 'glow'
+              ? [
+                  styles.highlightGlow,
+                  {
+                    borderColor: highlight.color,
+                    borderRadius: getBorderRadius() + HIGHLIGHT_GLOW_OFFSET,
+                    opacity: highlightValue,
+                  },
+                ]
+              : [
+                  StyleSheet.absoluteFill,
+                  {
+                    backgroundColor: highlight.color,
+                    borderRadius: getBorderRadius(),
+                    opacity: highlightValue,
+                  },
+                ]
+          }
+        />
+      )}
     </Animated.View>
   );
 };
 
+const styles = StyleSheet.create({
+  highlightGlow: {
+    position: 'absolute',
+    top: -HIGHLIGHT_GLOW_OFFSET,
+    left: -HIGHLIGHT_GLOW_OFFSET,
+    right: -HIGHLIGHT_GLOW_OFFSET,
+    bottom: -HIGHLIGHT_GLOW_OFFSET,
+    borderWidth: HIGHLIGHT_GLOW_WIDTH,
+  },
+});
+
 export default AnimatedCell;
@@ -5,6 +5,7 @@
 
 import React, { useCallback, useRef } from 'react';
 import { View } from 'react-native';
+import type { LayoutChangeEvent } from 'react-native';
 import type { GestureConfig } from '../types';
 import { isGestureHandlerAvailable } from '../utils/gestures';
 
@@ -19,9 +20,16 @@ interface GestureWrapperProps {
   contentSize?: { width: number; height: number };
   /** Container dimensions */
   containerSize?: { width: number; height: number };
+  /** Layout callback for the gesture area */
+  onLayout?: (event: LayoutChangeEvent) => void;
   /** Gesture event callbacks */
   onPanGesture?: (event: any) => void;
+  onPanGestureEnd?: () => void;
   onZoomGesture?: (event: any) => void;
+  onZoomGestureEnd?: () => void;
+  onBrushStart?: (event: any) => void;
+  onBrushGesture?: (event: any) => void;
+  onBrushEnd?: () => void;
   onSwipeGesture?: (direction: 'left' | 'right' | 'up' | 'down') => void;
 }
 
@@ -35,19 +43,30 @@ const GestureWrapper: React.FC<GestureWrapperProps> = ({
   style,
   contentSize: _contentSize,
   containerSize: _containerSize,
+  onLayout,
   onPanGesture,
+  onPanGestureEnd,
   onZoomGesture,
+  onZoomGestureEnd,
+  onBrushStart,
+  onBrushGesture,
+  onBrushEnd,
   onSwipeGesture,
 }) => {
   const panRef = useRef(null);
   const pinchRef = useRef(null);
+  const brushRef = useRef(null);
 
   // Check if gesture handler is available
   const gestureHandlerAvailable = isGestureHandlerAvailable();
 
   // If gestures are disabled or not available, render simple view
   if (!config.enabled || !gestureHandlerAvailable) {
-    return <View style={style}>{children}</View>;
+    return (
+      <View style={style} onLayout={onLayout}>
+        {children}
+      </View>
+    );
   }
 
   try {
@@ -58,27 +77,59 @@ const GestureWrapper: React.FC<GestureWrapperProps> = ({
       GestureHandlerRootView,
     } = require('react-native-gesture-handler');
 
-    // Pan gesture
+    // Pan gesture (callbacks run on the JS thread, they update React state)
     const panGesture = config.pan
       ? Gesture.Pan()
+          .runOnJS(true)
           .onUpdate((event: any) => {
             onPanGesture?.(event);
           })
+          .onEnd(() => {
+            onPanGestureEnd?.();
+          })
           .withRef(panRef)
       : undefined;
 
+    // Brush gesture: a drag that starts with a long press
+    const brushGesture = config.brush
+      ? Gesture.Pan()
+          .runOnJS(true)
+          .activateAfterLongPress(config.brushActivationDelay ?? 300)
+          .onStart((event: any) => {
+            onBrushStart?.(event);
+          })
+          .onUpdate((event: any) => {
+            onBrushGesture?.(event);
+          })
+          .onEnd(() => {
+            onBrushEnd?.();
+          })
+          .withRef(brushRef)
+      : undefined;
+
+    // Brushing takes priority; a drag without the long press pans
+    const dragGesture =
+      brushGesture && panGesture
+        ? Gesture.Exclusive(brushGesture, panGesture)
+        : (brushGesture ?? panGesture);
+
     // Pinch gesture
     const pinchGesture = config.zoom
       ? Gesture.Pinch()
+          .runOnJS(true)
           .onUpdate((event: any) => {
             onZoomGesture?.(event);
           })
+          .onEnd(() => {
+            onZoomGestureEnd?.();
+          })
           .withRef(pinchRef)
       : undefined;
 
     // Fling gesture for swipe detection
     const flingGesture = config.swipe
       ? Gesture.Fling()
+          .runOnJS(true)
           .direction(
             Gesture.DIRECTIONS.UP |
               Gesture.DIRECTIONS.DOWN |
@@ -98,10 +149,14 @@ const GestureWrapper: React.FC<GestureWrapperProps> = ({
       : undefined;
 
     // Combine gestures
-    const gestures = [panGesture, pinchGesture, flingGesture].filter(Boolean);
+    const gestures = [dragGesture, pinchGesture, flingGesture].filter(Boolean);
 
     if (gestures.length === 0) {
-      return <View style={style}>{children}</View>;
+      return (
+        <View style={style} onLayout={onLayout}>
+          {children}
+        </View>
+      );
     }
 
     // Create composed gesture
@@ -113,7 +168,7 @@ const GestureWrapper: React.FC<GestureWrapperProps> = ({
     }
 
     return (
-      <GestureHandlerRootView style={style}>
+      <GestureHandlerRootView style={style} onLayout={onLayout}>
         <GestureDetector gesture={composedGesture!}>
           <View style={{ flex: 1 }}>{children}</View>
         </GestureDetector>
@@ -124,7 +179,11 @@ const GestureWrapper: React.FC<GestureWrapperProps> = ({
     console.warn(
       'react-native-gesture-handler not available, gestures disabled'
     );
-    return <View style={style}>{children}</View>;
+    return (
+      <View style={style} onLayout={onLayout}>
+        {children}
+      </View>
+    );
   }
 };
 
@@ -2,16 +2,38 @@
  * Main Heatmap component
  */
 
-import React, { useMemo, useCallback, useState, useRef } from 'react';
-import { View, StyleSheet, Dimensions } from 'react-native';
+import {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import type { ComponentType } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Dimensions,
+  I18nManager,
+  AccessibilityInfo,
+  findNodeHandle,
+} from 'react-native';
+import type { ViewProps } from 'react-native';
 import Svg, { Rect, Text as SvgText, G } from 'react-native-svg';
 
 import type {
   HeatmapProps,
+  HeatmapRef,
+  HeatmapScrollOptions,
+  AxisLabelContext,
   ProcessedCellData,
   Theme,
   AnimationConfig,
   GestureConfig,
+  GestureTransform,
   TooltipConfig,
 } from '../types';
 import { DEFAULT_THEME } from '../types';
@@ -26,15 +48,57 @@ import {
   calculateCustomRangeLayout,
   calculateTimelineScrollLayout,
   calculateRealTimeLayout,
+  getLiveDates,
+  calculateValueDomain,
+  aggregateHeatmapData,
+  resolveValueScale,
+  calculateLegendSteps,
+  formatWeekdayLabel,
+  formatDateKeyLabel,
+  formatCellAccessibilityLabel,
+  calculateHeatmapSummary,
+  formatHeatmapSummary,
+  DEFAULT_ACCESSIBILITY_STRINGS,
+  getColumnOffset,
   DEFAULT_ANIMATION_CONFIG,
   mergeAnimationConfig,
   DEFAULT_GESTURE_CONFIG,
   mergeGestureConfig,
-  isAnimationSupported,
   isGestureHandlerAvailable,
+  IDENTITY_TRANSFORM,
+  calculateZoomBounds,
+  clampGestureTransform,
+  clampValue,
+  zoomAroundPoint,
+  applyGestureTransform,
+  generateDateRange,
+  updateSelection,
+  calculateBrushBounds,
+  getGridPosition,
+  toDateKey,
+  toHourKey,
+  indexCellsByPosition,
+  getKeyboardNavigationTarget,
+  resolveColorScheme,
+  resolveTransitionConfig,
+  resolveHighlightConfig,
+  createStaggerSchedule,
 } from '../utils';
+import type { HeatmapKeyEvent } from '../utils';
+import {
+  calculateOptimalVirtualization,
+  calculateVisibleGridBounds,
+  calculateVisibleRange,
+  SpatialIndex,
+} from '../utils/virtualization';
+import type { GridBounds, Viewport } from '../utils/virtualization';
 import Tooltip from './Tooltip';
-import AnimatedCell from './AnimatedCell';
+import GestureWrapper from './GestureWrapper';
+import AnimatedCell, {
+  getCellFocusProps,
+  SELECTED_OUTLINE_WIDTH,
+} from './AnimatedCell';
+import Legend, { calculateLegendLayout, estimateTextWidth } from './Legend';
 
 /**
  * Default props for the Heatmap component
@@ -51,15 +115,39 @@ const defaultProps: Partial<HeatmapProps> = {
   showLegend: false,
   hapticFeedback: false,
   accessibility: {
-    label: 'Heatmap visualization',
     role: 'grid',
   },
 };
 
+/** Gap between a focused cell and its focus ring, and the ring's width */
+const FOCUS_RING_OFFSET = 2;
+const FOCUS_RING_WIDTH = 2;
+
+/**
+ * Cells moved by each cell accessibility action; weeks are counted in days
+ */
+const ACCESSIBILITY_ACTION_STEPS: Record<
+  string,
+  { step: number; unit: 'cell' | 'day' }
+> = {
+  increment: { step: 1, unit: 'cell' },
+  decrement: { step: -1, unit: 'cell' },
+  nextWeek: { step: 7, unit: 'day' },
+  previousWeek: { step: -7, unit: 'day' },
+};
+
+/**
+ * View with the onKeyDown prop react-native-web passes to the DOM; key
+ * events bubble up to it from the focused cell
+ */
+const KeyboardView = View as ComponentType<
+  ViewProps & { onKeyDown?: (event: HeatmapKeyEvent) => void }
+>;
+
 /**
  * Main Heatmap Component
  */
-const Heatmap: React.FC<HeatmapProps> = (props) => {
+const Heatmap = forwardRef<HeatmapRef, HeatmapProps>((props, ref) => {
   const {
     data,
     width,
@@ -69,34 +157,61 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
     cellShape = 'square',
     layout = defaultProps.layout!,
     colorScheme = defaultProps.colorScheme!,
+    scale,
     theme = {},
+    timeLayoutConfig,
     startDate,
     endDate,
     numDays,
+    aggregate,
     onCellPress,
     onCellLongPress,
     onCellPressIn,
     onCellPressOut,
     onCellDoublePress,
+    onCellFocus,
+    onTooltipChange,
+    selectionMode = 'none',
+    selectedDates,
+    onSelectionChange,
     tooltip,
     showTooltip = defaultProps.showTooltip!,
     tooltipContent,
     animated = defaultProps.animated!,
     animation,
     animationDuration = 300,
+    highlightDates,
     gesture,
     panEnabled,
     zoomEnabled,
     hapticFeedback = defaultProps.hapticFeedback!,
+    virtualized = false,
+    renderBuffer,
+    scrollOffset,
+    onZoomChange,
+    onPanChange,
+    brushEnabled,
+    onBrushChange,
+    onBrushEnd,
     accessibility = defaultProps.accessibility!,
+    accessibleFallback = 'none',
     showMonthLabels = defaultProps.showMonthLabels!,
     showWeekdayLabels = defaultProps.showWeekdayLabels!,
-    // showLegend = defaultProps.showLegend!,
-    // legendPosition = 'bottom',
+    locale = 'en-US',
+    direction = I18nManager.isRTL ? 'rtl' : 'ltr',
+    orientation = 'horizontal',
+    formatXLabel,
+    formatYLabel,
+    showLegend = defaultProps.showLegend!,
+    legendPosition = 'bottom',
+    legend = {},
     columns,
     rows,
     // New time-based layout props
     targetDate,
+    timeZone,
+    weekStartsOn = 0,
+    weekNumbering = 'us',
     hourFormat = '24h',
     showTimeLabels = false,
     scrollDirection = 'horizontal',
@@ -107,12 +222,10 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
     labelStyle,
   } = props;
 
-  // State for tooltip
-  const [tooltipData, setTooltipData] = useState<{
-    data: ProcessedCellData;
-    position: { x: number; y: number };
-    visible: boolean;
-  } | null>(null);
+  // Date of the open tooltip, unless controlled through tooltip.visibleDate
+  const [uncontrolledTooltipDate, setUncontrolledTooltipDate] = useState<
+    string | null
+  >(null);
 
   // Container dimensions
   const [containerDimensions, setContainerDimensions] = useState({
@@ -120,8 +233,17 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
     height: Dimensions.get('window').height,
   });
 
-  // Refs for gesture handling
-  const gestureRef = useRef(null);
+  // Pan and zoom of the content; the ref mirrors state for gesture handlers
+  const [transform, setTransform] =
+    useState<GestureTransform>(IDENTITY_TRANSFORM);
+  const transformRef = useRef<GestureTransform>(IDENTITY_TRANSFORM);
+  // Gesture events are cumulative; remember the last one to apply deltas
+  const lastPanRef = useRef({ x: 0, y: 0 });
+  const lastPinchScaleRef = useRef(1);
+  // Offset of the gesture area within the container, for tooltips
+  const [contentOffset, setContentOffset] = useState({ x: 0, y: 0 });
+  // Pending frame of an imperative pan/zoom animation
+  const transformAnimationRef = useRef<number | null>(null);
 
   // Merge theme with defaults
   const mergedTheme: Theme = useMemo(
@@ -134,14 +256,36 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
   );
 
   // Merge animation configuration
+  // Follow the OS reduce motion setting as it changes
+  const [reduceMotion, setReduceMotion] = useState(false);
+  useEffect(() => {
+    let mounted = true;
+    AccessibilityInfo.isReduceMotionEnabled()
+      .then((enabled) => {
+        // Motion is assumed until the setting is read
+        if (mounted && enabled) {
+          setReduceMotion(true);
+        }
+      })
+      .catch(() => {});
+    const subscription = AccessibilityInfo.addEventListener(
+      'reduceMotionChanged',
+      setReduceMotion
+    );
+    return () => {
+      mounted = false;
+      subscription.remove();
+    };
+  }, []);
+
   const mergedAnimationConfig: AnimationConfig = useMemo(() => {
     const baseConfig = {
       ...DEFAULT_ANIMATION_CONFIG,
-      enabled: animated && isAnimationSupported(),
+      enabled: animated,
       duration: animationDuration,
     };
-    return mergeAnimationConfig(baseConfig, animation);
-  }, [animated, animationDuration, animation]);
+    return mergeAnimationConfig(baseConfig, animation, reduceMotion);
+  }, [animated, animationDuration, animation, reduceMotion]);
 
   // Merge gesture configuration
   const mergedGestureConfig: GestureConfig = useMemo(() => {
@@ -150,10 +294,11 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
       enabled: isGestureHandlerAvailable(),
       pan: panEnabled ?? DEFAULT_GESTURE_CONFIG.pan,
       zoom: zoomEnabled ?? DEFAULT_GESTURE_CONFIG.zoom,
+      brush: brushEnabled ?? DEFAULT_GESTURE_CONFIG.brush,
       hapticFeedback,
     };
     return mergeGestureConfig(baseConfig, gesture);
-  }, [panEnabled, zoomEnabled, hapticFeedback, gesture]);
+  }, [panEnabled, zoomEnabled, brushEnabled, hapticFeedback, gesture]);
 
   // Merge tooltip configuration
   const mergedTooltipConfig: TooltipConfig = useMemo(() => {
@@ -190,12 +335,46 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
     return { start: calculatedStart, end: calculatedEnd };
   }, [startDate, endDate, numDays]);
 
+  // Resolve the value scale shared by cells, legend and tooltip
+  const valueScale = useMemo(
+    () => resolveValueScale(colorScheme, scale),
+    [colorScheme, scale]
+  );
+
+  // Time zone used to bucket timestamps into days and hours
+  const resolvedTimeZone = timeZone ?? timeLayoutConfig?.timeZone;
+
+  // Week configuration shared by calendar layouts and labels
+  const weekOptions = useMemo(
+    () => ({ weekStartsOn, weekNumbering }),
+    [weekStartsOn, weekNumbering]
+  );
+
+  // Target date for time-based layouts
+  const currentDate = useMemo(() => targetDate || new Date(), [targetDate]);
+
+  // Daily and hourly custom range layouts bucket data by hour
+  const hourlyCustomRange =
+    layout === 'customRange' && customRange?.granularity === 'hour';
+  const granularity = layout === 'daily' || hourlyCustomRange ? 'hour' : 'day';
+
+  // Date span covered by processed cells
+  const processedRange = useMemo(() => {
+    if (layout === 'daily') {
+      return { start: currentDate, end: currentDate };
+    }
+    if (hourlyCustomRange && customRange) {
+      return customRange;
+    }
+    return dateRange;
+  }, [layout, currentDate, hourlyCustomRange, customRange, dateRange]);
+
   // Process heatmap data
   const processedData = useMemo(() => {
     return processHeatmapData(
       data,
-      dateRange.start,
-      dateRange.end,
+      processedRange.start,
+      processedRange.end,
       colorScheme,
       layout === 'daily' ||
         layout === 'weekly' ||
@@ -205,38 +384,208 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
         layout === 'timelineScroll' ||
         layout === 'realTime'
         ? 'grid'
-        : layout
+        : layout,
+      {
+        scale: valueScale,
+        aggregate,
+        granularity,
+        timeZone: resolvedTimeZone,
+        orientation,
+        ...weekOptions,
+      }
+    );
+  }, [
+    data,
+    processedRange.start,
+    processedRange.end,
+    colorScheme,
+    layout,
+    valueScale,
+    aggregate,
+    granularity,
+    resolvedTimeZone,
+    orientation,
+    weekOptions,
+  ]);
+
+  // Cells by date key, for tooltips and the imperative handle
+  const cellsByDate = useMemo(() => {
+    const cells = new Map<string, ProcessedCellData>();
+    processedData.forEach((cell) => {
+      if (cell.date) {
+        cells.set(cell.date, cell);
+      }
+    });
+    return cells;
+  }, [processedData]);
+
+  // Cell colors tween through the color scheme when values change
+  const resolvedColorScheme = useMemo(
+    () => resolveColorScheme(colorScheme),
+    [colorScheme]
+  );
+
+  // Entry delays and durations, in the configured stagger order
+  const entrySchedule = useMemo(
+    () =>
+      mergedAnimationConfig.enabled
+        ? createStaggerSchedule(processedData, mergedAnimationConfig)
+        : [],
+    [processedData, mergedAnimationConfig]
+  );
+
+  // Cells of the last committed data, so dates entering or leaving the range
+  // after the first render can play their transitions
+  const transitionsEnabled = resolveTransitionConfig(
+    mergedAnimationConfig
+  ).enabled;
+  const [committedCellsByDate, setCommittedCellsByDate] = useState(cellsByDate);
+  const previousCellsByDateRef = useRef(cellsByDate);
+  const [exitingCells, setExitingCells] = useState<ProcessedCellData[]>([]);
+
+  // Highlight settings, and a count per date that plays the highlight once
+  // each time it goes up
+  const highlightConfig = useMemo(
+    () =>
+      resolveHighlightConfig(
+        mergedAnimationConfig,
+        mergedTheme.colors.highlight ?? DEFAULT_THEME.colors.highlight!
+      ),
+    [mergedAnimationConfig, mergedTheme.colors.highlight]
+  );
+  const [highlightCounts, setHighlightCounts] = useState<Map<string, number>>(
+    () => new Map()
+  );
+  const highlightCells = useCallback((dates: string[]) => {
+    if (dates.length === 0) {
+      return;
+    }
+    setHighlightCounts((current) => {
+      const next = new Map(current);
+      dates.forEach((date) => next.set(date, (next.get(date) ?? 0) + 1));
+      return next;
+    });
+  }, []);
+
+  // Dates play the highlight as they are added to highlightDates
+  const previousHighlightDatesRef = useRef(new Set<string>());
+  useEffect(() => {
+    const dates = new Set(highlightDates);
+    const added = [...dates].filter(
+      (date) => !previousHighlightDatesRef.current.has(date)
+    );
+    previousHighlightDatesRef.current = dates;
+    highlightCells(added);
+  }, [highlightDates, highlightCells]);
+
+  useEffect(() => {
+    const previous = previousCellsByDateRef.current;
+    previousCellsByDateRef.current = cellsByDate;
+    setCommittedCellsByDate(cellsByDate);
+    if (previous === cellsByDate) {
+      return;
+    }
+
+    // Cells whose value changed play the highlight
+    if (highlightConfig.changes) {
+      highlightCells(
+        [...cellsByDate.values()]
+          .filter((cell) => {
+            const before = previous.get(cell.date);
+            return before !== undefined && before.value !== cell.value;
+          })
+          .map((cell) => cell.date)
+      );
+    }
+    if (!transitionsEnabled) {
+      return;
+    }
+
+    const left = [...previous.values()].filter(
+      (cell) => !cellsByDate.has(cell.date)
     );
-  }, [data, dateRange.start, dateRange.end, colorScheme, layout]);
+    setExitingCells((current) => {
+      // Dates that came back stop exiting
+      const staying = current.filter((cell) => !cellsByDate.has(cell.date));
+      return left.length === 0 && staying.length === current.length
+        ? current
+        : [...staying, ...left];
+    });
+  }, [
+    cellsByDate,
+    transitionsEnabled,
+    highlightConfig.changes,
+    highlightCells,
+  ]);
+
+  const handleCellExited = useCallback((cell: ProcessedCellData) => {
+    setExitingCells((current) => current.filter((exiting) => exiting !== cell));
+  }, []);
 
   // Calculate calendar layout data
   const calendarLayout = useMemo(() => {
     if (layout === 'calendar') {
-      return calculateCalendarLayout(processedData, dateRange.start);
+      return calculateCalendarLayout(
+        processedData,
+        dateRange.start,
+        resolvedTimeZone,
+        weekOptions,
+        locale,
+        orientation
+      );
     }
     return null;
-  }, [processedData, dateRange.start, layout]);
+  }, [
+    processedData,
+    dateRange.start,
+    layout,
+    resolvedTimeZone,
+    weekOptions,
+    locale,
+    orientation,
+  ]);
 
   // Calculate time-based layouts
   const timeBasedLayouts = useMemo(() => {
-    const currentDate = targetDate || new Date();
-
     switch (layout) {
       case 'daily':
         return {
-          daily: calculateDailyLayout(processedData, currentDate, hourFormat),
+          daily: calculateDailyLayout(
+            processedData,
+            currentDate,
+            hourFormat,
+            resolvedTimeZone,
+            locale
+          ),
         };
       case 'weekly':
         return {
-          weekly: calculateWeeklyLayout(processedData, currentDate),
+          weekly: calculateWeeklyLayout(
+            processedData,
+            currentDate,
+            resolvedTimeZone,
+            weekOptions,
+            locale
+          ),
         };
       case 'monthly':
         return {
-          monthly: calculateMonthlyLayout(processedData, currentDate),
+          monthly: calculateMonthlyLayout(
+            processedData,
+            currentDate,
+            resolvedTimeZone,
+            weekOptions
+          ),
         };
       case 'yearly':
         return {
-          yearly: calculateYearlyLayout(processedData, currentDate),
+          yearly: calculateYearlyLayout(
+            processedData,
+            currentDate,
+            resolvedTimeZone,
+            weekOptions,
+            locale
+          ),
         };
       case 'customRange':
         if (customRange) {
@@ -245,7 +594,10 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
               processedData,
               customRange.start,
               customRange.end,
-              customRange.granularity
+              customRange.granularity,
+              resolvedTimeZone,
+              weekOptions,
+              locale
             ),
           };
         }
@@ -255,12 +607,19 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
           timelineScroll: calculateTimelineScrollLayout(
             processedData,
             scrollDirection,
-            24 // Default chunk size
+            24, // Default chunk size
+            locale
           ),
         };
       case 'realTime':
         return {
-          realTime: calculateRealTimeLayout(processedData, 24, updateInterval),
+          realTime: calculateRealTimeLayout(
+            processedData,
+            24,
+            updateInterval,
+            resolvedTimeZone,
+            data
+          ),
         };
       default:
         return null;
@@ -268,13 +627,41 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
   }, [
     layout,
     processedData,
-    targetDate,
+    currentDate,
     hourFormat,
+    resolvedTimeZone,
+    weekOptions,
+    locale,
     customRange,
     scrollDirection,
     updateInterval,
+    data,
   ]);
 
+  // Live real-time cells keep playing the highlight. Liveness is checked on
+  // every render and every updateInterval while a cell is live, and the set
+  // only changes identity when its dates do
+  const [, setLiveCheck] = useState(0);
+  const realTimeLayout = timeBasedLayouts?.realTime;
+  const liveDateKeys =
+    realTimeLayout && highlightConfig.enabled && highlightConfig.live
+      ? getLiveDates(realTimeLayout, updateInterval).join(' ')
+      : '';
+  const liveDates = useMemo(
+    () => new Set(liveDateKeys ? liveDateKeys.split(' ') : []),
+    [liveDateKeys]
+  );
+  useEffect(() => {
+    if (!liveDateKeys) {
+      return undefined;
+    }
+    const timer = setInterval(
+      () => setLiveCheck((count) => count + 1),
+      updateInterval
+    );
+    return () => clearInterval(timer);
+  }, [liveDateKeys, updateInterval]);
+
   // Calculate dimensions
   const dimensions = useMemo(() => {
     const gridDims = columns && rows ? { columns, rows } : undefined;
@@ -283,29 +670,715 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
       cellSize,
       cellSpacing,
       layout,
-      gridDims
+      gridDims,
+      orientation
     );
-  }, [processedData, cellSize, cellSpacing, layout, columns, rows]);
+  }, [
+    processedData,
+    cellSize,
+    cellSpacing,
+    layout,
+    columns,
+    rows,
+    orientation,
+  ]);
 
   // Calculate final dimensions
   const finalWidth = width || dimensions.width;
   const finalHeight = height || dimensions.height;
 
-  // Resolve color scheme (not used directly in component but available for future features)
-  // const resolvedColorScheme = useMemo(() => {
-  //   return resolveColorScheme(colorScheme);
-  // }, [colorScheme]);
+  // Horizontal cell offsets, mirrored for right-to-left layouts
+  const isRTL = direction === 'rtl';
+  const getCellX = useCallback(
+    (column: number) =>
+      getColumnOffset(column, cellSize, cellSpacing, finalWidth, direction),
+    [cellSize, cellSpacing, finalWidth, direction]
+  );
+
+  // X-axis labels start at the leading edge of their column
+  const getAxisLabelX = useCallback(
+    (column: number) => getCellX(column) + (isRTL ? cellSize : 0),
+    [getCellX, isRTL, cellSize]
+  );
+  const axisLabelAnchor = isRTL ? 'end' : 'start';
+
+  // Y-axis labels sit beside the leading edge of the grid
+  const sideLabelX = isRTL
+    ? finalWidth + mergedTheme.typography.fontSize + 5
+    : -mergedTheme.typography.fontSize - 5;
+
+  // Vertical calendars put months down the side and weekdays along the top
+  const isVerticalCalendar =
+    layout === 'calendar' && orientation === 'vertical';
+
+  // Legend and tooltip steps share the value domain used by processHeatmapData
+  const legendSteps = useMemo(() => {
+    const domain = calculateValueDomain(
+      aggregateHeatmapData(data, aggregate, granularity, resolvedTimeZone),
+      valueScale
+    );
+    return calculateLegendSteps(
+      colorScheme,
+      domain.min,
+      domain.max,
+      domain.scale,
+      domain.sortedValues
+    );
+  }, [data, aggregate, granularity, resolvedTimeZone, colorScheme, valueScale]);
+
+  const legendSwatchSize = legend.swatchSize ?? cellSize;
+
+  const legendLayout = useMemo(() => {
+    if (!showLegend) {
+      return null;
+    }
+    return calculateLegendLayout(
+      legendSteps,
+      legend,
+      legendPosition === 'left' || legendPosition === 'right'
+        ? 'vertical'
+        : 'horizontal',
+      legendSwatchSize,
+      cellSpacing,
+      mergedTheme.typography.fontSize,
+      locale
+    );
+  }, [
+    showLegend,
+    legendSteps,
+    legend,
+    legendPosition,
+    legendSwatchSize,
+    cellSpacing,
+    mergedTheme.typography.fontSize,
+    locale,
+  ]);
+
+  // Apply the per-axis label formatters over the localized default labels
+  const formatAxisLabel = useCallback(
+    (
+      axis: 'x' | 'y',
+      defaultLabel: string,
+      context: Omit<AxisLabelContext, 'locale'>
+    ) => {
+      const formatter = axis === 'x' ? formatXLabel : formatYLabel;
+      return formatter
+        ? formatter(defaultLabel, { ...context, locale })
+        : defaultLabel;
+    },
+    [formatXLabel, formatYLabel, locale]
+  );
+
+  // Screen reader summary: date range, total, highest day, longest streak
+  // and busiest weekday
+  const { strings: accessibilityStrings, formatSummary } = accessibility;
+  const summaryText = useMemo(() => {
+    const summary = calculateHeatmapSummary(processedData);
+    return formatSummary
+      ? formatSummary(summary, locale)
+      : formatHeatmapSummary(summary, locale, accessibilityStrings);
+  }, [processedData, locale, formatSummary, accessibilityStrings]);
+
+  const accessibilityLabel =
+    accessibility.label ??
+    `${
+      accessibilityStrings?.heatmap ?? DEFAULT_ACCESSIBILITY_STRINGS.heatmap
+    }, ${summaryText}`;
+
+  // Swipe actions on cells, in the accessibility strings' language
+  const cellAccessibilityActions = useMemo(() => {
+    const text = { ...DEFAULT_ACCESSIBILITY_STRINGS, ...accessibilityStrings };
+    return [
+      { name: 'increment', label: text.nextDay },
+      { name: 'decrement', label: text.previousDay },
+      { name: 'nextWeek', label: text.nextWeek },
+      { name: 'previousWeek', label: text.previousWeek },
+    ];
+  }, [accessibilityStrings]);
+
+  // Calculate SVG viewBox with padding for labels
+  const monthLabelWidth =
+    isVerticalCalendar && showMonthLabels && calendarLayout
+      ? Math.max(
+          0,
+          ...calendarLayout.monthBoundaries.map((month) =>
+            estimateTextWidth(month.month, mergedTheme.typography.fontSize)
+          )
+        ) + 10
+      : 0;
+  const sideLabelPadding = isVerticalCalendar
+    ? monthLabelWidth
+    : (showWeekdayLabels && layout === 'calendar') ||
+        (showTimeLabels && (layout === 'monthly' || layout === 'yearly'))
+      ? mergedTheme.typography.fontSize + 10
+      : 0;
+  const labelPadding = {
+    left: isRTL ? 0 : sideLabelPadding,
+    right: isRTL ? sideLabelPadding : 0,
+    top:
+      (layout === 'calendar' &&
+        (isVerticalCalendar ? showWeekdayLabels : showMonthLabels)) ||
+      (showTimeLabels &&
+        (layout === 'daily' ||
+          layout === 'weekly' ||
+          layout === 'yearly' ||
+          layout === 'customRange' ||
+          layout === 'timelineScroll'))
+        ? mergedTheme.typography.fontSize + 10
+        : 0,
+  };
+
+  // Reserve room for the legend outside the labels on its side
+  const legendGap = mergedTheme.spacing.margin;
+  const legendSpace = {
+    width: legendLayout ? legendLayout.width + legendGap : 0,
+    height: legendLayout ? legendLayout.height + legendGap : 0,
+  };
+
+  const viewBoxPadding = {
+    left:
+      labelPadding.left + (legendPosition === 'left' ? legendSpace.width : 0),
+    top: labelPadding.top + (legendPosition === 'top' ? legendSpace.height : 0),
+    right:
+      labelPadding.right + (legendPosition === 'right' ? legendSpace.width : 0),
+    bottom: legendPosition === 'bottom' ? legendSpace.height : 0,
+  };
+
+  const legendOrigin = {
+    x:
+      legendPosition === 'left'
+        ? -viewBoxPadding.left
+        : legendPosition === 'right'
+          ? finalWidth + labelPadding.right + legendGap
+          : 0,
+    y:
+      legendPosition === 'top'
+        ? -viewBoxPadding.top
+        : legendPosition === 'bottom'
+          ? finalHeight + legendGap
+          : 0,
+  };
+
+  const viewBoxWidth = finalWidth + viewBoxPadding.left + viewBoxPadding.right;
+  const viewBoxHeight =
+    finalHeight + viewBoxPadding.top + viewBoxPadding.bottom;
+
+  // The gesture area clips the content at its untransformed size; when
+  // virtualized with a pan to reach the rest, it is also clipped to the
+  // container. Inside a parent ScrollView, scrollOffset gives the part shown
+  const contentSize = useMemo(
+    () => ({ width: viewBoxWidth, height: viewBoxHeight }),
+    [viewBoxWidth, viewBoxHeight]
+  );
+  const clipsToContainer =
+    virtualized &&
+    !scrollOffset &&
+    isGestureHandlerAvailable() &&
+    mergedGestureConfig.enabled &&
+    mergedGestureConfig.pan !== false;
+  const viewportSize = useMemo(
+    () =>
+      clipsToContainer
+        ? {
+            width: Math.min(viewBoxWidth, containerDimensions.width),
+            height: Math.min(viewBoxHeight, containerDimensions.height),
+          }
+        : contentSize,
+    [
+      clipsToContainer,
+      viewBoxWidth,
+      viewBoxHeight,
+      containerDimensions,
+      contentSize,
+    ]
+  );
+
+  // Apply a pan/zoom, clamped to the configured zoom and the pan bounds
+  const updateTransform = useCallback(
+    (next: GestureTransform) => {
+      const previous = transformRef.current;
+      const clamped = clampGestureTransform(
+        next,
+        contentSize,
+        viewportSize,
+        mergedGestureConfig
+      );
+      transformRef.current = clamped;
+      setTransform(clamped);
+
+      if (clamped.scale !== previous.scale) {
+        onZoomChange?.(clamped.scale);
+      }
+      if (
+        clamped.translateX !== previous.translateX ||
+        clamped.translateY !== previous.translateY
+      ) {
+        onPanChange?.({ x: clamped.translateX, y: clamped.translateY });
+      }
+    },
+    [contentSize, viewportSize, mergedGestureConfig, onZoomChange, onPanChange]
+  );
+
+  // Stop an imperative pan/zoom animation, e.g. when a gesture takes over
+  const cancelTransformAnimation = useCallback(() => {
+    if (transformAnimationRef.current !== null) {
+      cancelAnimationFrame(transformAnimationRef.current);
+      transformAnimationRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => cancelTransformAnimation, [cancelTransformAnimation]);
+
+  // Move to a pan/zoom, easing out over the animation duration if animated
+  const animateTransform = useCallback(
+    (next: GestureTransform, animate: boolean) => {
+      cancelTransformAnimation();
+      const from = transformRef.current;
+      const target = clampGestureTransform(
+        next,
+        contentSize,
+        viewportSize,
+        mergedGestureConfig
+      );
+      const duration = mergedAnimationConfig.duration;
+
+      if (!animate || duration <= 0) {
+        updateTransform(target);
+        return;
+      }
+
+      const startTime = Date.now();
+      const step = () => {
+        const progress = Math.min(1, (Date.now() - startTime) / duration);
+        const eased = 1 - Math.pow(1 - progress, 3);
+        updateTransform({
+          translateX:
+            from.translateX + (target.translateX - from.translateX) * eased,
+          translateY:
+            from.translateY + (target.translateY - from.translateY) * eased,
+          scale: from.scale + (target.scale - from.scale) * eased,
+        });
+        transformAnimationRef.current =
+          progress < 1 ? requestAnimationFrame(step) : null;
+      };
+      transformAnimationRef.current = requestAnimationFrame(step);
+    },
+    [
+      cancelTransformAnimation,
+      contentSize,
+      viewportSize,
+      mergedGestureConfig,
+      mergedAnimationConfig.duration,
+      updateTransform,
+    ]
+  );
+
+  // Handle pan gesture updates
+  const handlePanGesture = useCallback(
+    (event: any) => {
+      cancelTransformAnimation();
+      const last = lastPanRef.current;
+      const current = transformRef.current;
+      lastPanRef.current = { x: event.translationX, y: event.translationY };
+      updateTransform({
+        ...current,
+        translateX: current.translateX + event.translationX - last.x,
+        translateY: current.translateY + event.translationY - last.y,
+      });
+    },
+    [cancelTransformAnimation, updateTransform]
+  );
+
+  const handlePanGestureEnd = useCallback(() => {
+    lastPanRef.current = { x: 0, y: 0 };
+  }, []);
+
+  // Handle pinch gesture updates, zooming around the pinch focal point
+  const handleZoomGesture = useCallback(
+    (event: any) => {
+      cancelTransformAnimation();
+      const current = transformRef.current;
+      const { minZoom, maxZoom } = calculateZoomBounds(
+        contentSize,
+        viewportSize,
+        mergedGestureConfig
+      );
+      const nextScale = clampValue(
+        (current.scale * event.scale) / lastPinchScaleRef.current,
+        minZoom,
+        maxZoom
+      );
+      lastPinchScaleRef.current = event.scale;
+      updateTransform(
+        zoomAroundPoint(current, nextScale, {
+          x: event.focalX,
+          y: event.focalY,
+        })
+      );
+    },
+    [
+      cancelTransformAnimation,
+      contentSize,
+      viewportSize,
+      mergedGestureConfig,
+      updateTransform,
+    ]
+  );
+
+  const handleZoomGestureEnd = useCallback(() => {
+    lastPinchScaleRef.current = 1;
+  }, []);
+
+  // Handle gesture area layout
+  const handleContentLayout = useCallback((event: any) => {
+    const { x, y } = event.nativeEvent.layout;
+    setContentOffset({ x, y });
+  }, []);
+
+  // Part of the grid shown in the gesture area, or in the parent ScrollView
+  // when scrollOffset is given, in unmirrored grid pixels
+  const gridViewport: Viewport = useMemo(() => {
+    const window = Dimensions.get('window');
+    const visible = scrollOffset
+      ? {
+          x: scrollOffset.x - contentOffset.x,
+          y: scrollOffset.y - contentOffset.y,
+          width: scrollOffset.width ?? window.width,
+          height: scrollOffset.height ?? window.height,
+        }
+      : { x: 0, y: 0, ...viewportSize };
+    const visibleWidth = visible.width / transform.scale;
+    const offsetX =
+      (visible.x - transform.translateX) / transform.scale -
+      viewBoxPadding.left;
+
+    return {
+      width: visible.width,
+      height: visible.height,
+      offsetX: isRTL ? finalWidth - offsetX - visibleWidth : offsetX,
+      offsetY:
+        (visible.y - transform.translateY) / transform.scale -
+        viewBoxPadding.top,
+      scale: transform.scale,
+    };
+  }, [
+    scrollOffset,
+    contentOffset,
+    viewportSize,
+    transform,
+    viewBoxPadding.left,
+    viewBoxPadding.top,
+    isRTL,
+    finalWidth,
+  ]);
+
+  // Only cells near the viewport are rendered when virtualized
+  const spatialIndex = useMemo(
+    () =>
+      virtualized || mergedGestureConfig.brush
+        ? new SpatialIndex(processedData)
+        : undefined,
+    [virtualized, mergedGestureConfig.brush, processedData]
+  );
+  const visibleRange = useMemo(() => {
+    const optimal = calculateOptimalVirtualization(
+      processedData.length,
+      cellSize,
+      cellSpacing,
+      viewportSize
+    );
+
+    return calculateVisibleRange(
+      processedData,
+      gridViewport,
+      {
+        ...optimal,
+        enabled: virtualized,
+        bufferSize: renderBuffer ?? optimal.bufferSize,
+      },
+      spatialIndex
+    );
+  }, [
+    processedData,
+    spatialIndex,
+    cellSize,
+    cellSpacing,
+    viewportSize,
+    gridViewport,
+    virtualized,
+    renderBuffer,
+  ]);
+
+  // Labels are culled to the same columns and rows as the cells
+  const isSpanVisible = useCallback(
+    (start: number, length: number, axis: 'column' | 'row') => {
+      const { bounds } = visibleRange;
+      const end = start + Math.max(1, length) - 1;
+      return axis === 'column'
+        ? end >= bounds.minColumn && start <= bounds.maxColumn
+        : end >= bounds.minRow && start <= bounds.maxRow;
+    },
+    [visibleRange]
+  );
+
+  // Selection is controlled through selectedDates, or kept here otherwise
+  const [uncontrolledSelection, setUncontrolledSelection] = useState<string[]>(
+    []
+  );
+  const selection = selectedDates ?? uncontrolledSelection;
+  const selectedDateSet = useMemo(() => new Set(selection), [selection]);
+  // First date of a range selection awaiting its second tap
+  const rangeAnchorRef = useRef<string | null>(null);
+
+  // Range selections span dates in the order they appear in the heatmap
+  const orderedDates = useMemo(
+    () =>
+      granularity === 'hour'
+        ? processedData.map((cell) => cell.date)
+        : generateDateRange(
+            processedRange.start,
+            processedRange.end,
+            resolvedTimeZone
+          ),
+    [granularity, processedData, processedRange, resolvedTimeZone]
+  );
+
+  // Apply a press or the Space key to the selection
+  const toggleSelection = useCallback(
+    (date: string) => {
+      // Filler cells have no date to select
+      if (selectionMode === 'none' || !date) {
+        return;
+      }
+      const next = updateSelection(
+        { selectedDates: selection, anchor: rangeAnchorRef.current },
+        date,
+        selectionMode,
+        orderedDates
+      );
+      rangeAnchorRef.current = next.anchor;
+      if (!selectedDates) {
+        setUncontrolledSelection(next.selectedDates);
+      }
+      onSelectionChange?.(next.selectedDates);
+    },
+    [selectionMode, selection, orderedDates, selectedDates, onSelectionChange]
+  );
+
+  // Drop every selected date, along with a pending range anchor
+  const clearSelection = useCallback(() => {
+    rangeAnchorRef.current = null;
+    if (!selectedDates) {
+      setUncontrolledSelection([]);
+    }
+    onSelectionChange?.([]);
+  }, [selectedDates, onSelectionChange]);
+
+  // Brush corners in grid pixels (unmirrored, like the cell columns)
+  const [brush, setBrush] = useState<{
+    start: { x: number; y: number };
+    end: { x: number; y: number };
+  } | null>(null);
+
+  // Convert a point in the gesture area to grid pixels
+  const toGridPoint = useCallback(
+    (point: { x: number; y: number }) => {
+      const { translateX, translateY, scale: zoom } = transformRef.current;
+      const x = (point.x - translateX) / zoom - viewBoxPadding.left;
+      return {
+        x: isRTL ? finalWidth - x : x,
+        y: (point.y - translateY) / zoom - viewBoxPadding.top,
+      };
+    },
+    [viewBoxPadding.left, viewBoxPadding.top, isRTL, finalWidth]
+  );
+
+  // Cells covered by a brush, found by inverting the cell position math
+  const getBrushedCells = useCallback(
+    (
+      corners: {
+        start: { x: number; y: number };
+        end: { x: number; y: number };
+      } | null
+    ) => {
+      if (!corners || !spatialIndex) {
+        return [];
+      }
+      const bounds = calculateBrushBounds(
+        corners.start,
+        corners.end,
+        cellSize,
+        cellSpacing
+      );
+      return spatialIndex
+        .query(bounds)
+        .map((index) => processedData[index]!)
+        .filter((cell) => cell.date !== '');
+    },
+    [spatialIndex, cellSize, cellSpacing, processedData]
+  );
+  const brushedCells = useMemo(
+    () => getBrushedCells(brush),
+    [brush, getBrushedCells]
+  );
+
+  // Latest brush and reported cells, read by the gesture callbacks
+  const brushStateRef = useRef<typeof brush>(null);
+  const reportedBrushCellsRef = useRef<ProcessedCellData[]>([]);
+
+  const updateBrush = useCallback(
+    (next: typeof brush) => {
+      brushStateRef.current = next;
+      setBrush(next);
+
+      // Report the brushed cells whenever they change
+      const cells = getBrushedCells(next);
+      const previous = reportedBrushCellsRef.current;
+      if (
+        previous.length !== cells.length ||
+        previous.some((cell, index) => cell !== cells[index])
+      ) {
+        reportedBrushCellsRef.current = cells;
+        onBrushChange?.(cells);
+      }
+    },
+    [getBrushedCells, onBrushChange]
+  );
+
+  const handleBrushStart = useCallback(
+    (event: any) => {
+      const point = toGridPoint({ x: event.x, y: event.y });
+      updateBrush({ start: point, end: point });
+    },
+    [toGridPoint, updateBrush]
+  );
+
+  const handleBrushGesture = useCallback(
+    (event: any) => {
+      const current = brushStateRef.current;
+      if (current) {
+        updateBrush({
+          ...current,
+          end: toGridPoint({ x: event.x, y: event.y }),
+        });
+      }
+    },
+    [toGridPoint, updateBrush]
+  );
+
+  const handleBrushEnd = useCallback(() => {
+    onBrushEnd?.(getBrushedCells(brushStateRef.current));
+  }, [onBrushEnd, getBrushedCells]);
+
+  // Translucent rectangle around the brushed cells
+  const brushRect = useMemo(() => {
+    if (brushedCells.length === 0) {
+      return null;
+    }
+
+    let minColumn = Infinity;
+    let maxColumn = -Infinity;
+    let minRow = Infinity;
+    let maxRow = -Infinity;
+    brushedCells.forEach((cell) => {
+      minColumn = Math.min(minColumn, cell.x);
+      maxColumn = Math.max(maxColumn, cell.x);
+      minRow = Math.min(minRow, cell.y);
+      maxRow = Math.max(maxRow, cell.y);
+    });
+
+    const firstX = getCellX(minColumn);
+    const lastX = getCellX(maxColumn);
+    return {
+      x: Math.min(firstX, lastX),
+      y: minRow * (cellSize + cellSpacing),
+      width: Math.abs(lastX - firstX) + cellSize,
+      height: (maxRow - minRow) * (cellSize + cellSpacing) + cellSize,
+    };
+  }, [brushedCells, getCellX, cellSize, cellSpacing]);
+
+  // The tooltip is shown for a date, so it follows its cell as data changes
+  const tooltipTrigger = mergedTooltipConfig.trigger ?? 'longPress';
+  const isTooltipControlled = mergedTooltipConfig.visibleDate !== undefined;
+  const tooltipDate = isTooltipControlled
+    ? (mergedTooltipConfig.visibleDate ?? null)
+    : uncontrolledTooltipDate;
+  const tooltipCell = tooltipDate ? cellsByDate.get(tooltipDate) : undefined;
+  const dismissTooltipOnPress =
+    mergedTooltipConfig.dismissOnOutsidePress ?? true;
+
+  const changeTooltip = useCallback(
+    (date: string | null) => {
+      if (date === tooltipDate) {
+        return;
+      }
+      if (!isTooltipControlled) {
+        setUncontrolledTooltipDate(date);
+      }
+      onTooltipChange?.(date);
+    },
+    [tooltipDate, isTooltipControlled, onTooltipChange]
+  );
+
+  // Show the tooltip over a cell; filler cells have no date to show
+  const openTooltip = useCallback(
+    (cellData: ProcessedCellData) => {
+      if (cellData.date) {
+        changeTooltip(cellData.date);
+      }
+    },
+    [changeTooltip]
+  );
+
+  // Hide the tooltip after tooltip.dismissAfter
+  const { dismissAfter } = mergedTooltipConfig;
+  useEffect(() => {
+    if (!tooltipDate || !dismissAfter) {
+      return undefined;
+    }
+    const timer = setTimeout(() => changeTooltip(null), dismissAfter);
+    return () => clearTimeout(timer);
+  }, [tooltipDate, dismissAfter, changeTooltip]);
+
+  // Tooltips follow their cell through the viewBox padding and the transform
+  const tooltipPosition = tooltipCell
+    ? applyGestureTransform(
+        {
+          x: getCellX(tooltipCell.x) + viewBoxPadding.left,
+          y: tooltipCell.y * (cellSize + cellSpacing) + viewBoxPadding.top,
+        },
+        transform
+      )
+    : null;
 
   // Handle cell press
   const handleCellPress = useCallback(
     (cellData: ProcessedCellData, index: number) => {
       onCellPress?.(cellData, index);
-      // Hide tooltip on press
-      if (tooltipData?.visible) {
-        setTooltipData(null);
+      // Toggle the tooltip with the press trigger, otherwise a press hides it
+      if (mergedTooltipConfig.enabled && tooltipTrigger === 'press') {
+        changeTooltip(cellData.date !== tooltipDate ? cellData.date : null);
+      } else if (dismissTooltipOnPress) {
+        changeTooltip(null);
+      }
+
+      // A tap dismisses the brush
+      if (brushStateRef.current) {
+        updateBrush(null);
       }
+
+      toggleSelection(cellData.date);
     },
-    [onCellPress, tooltipData]
+    [
+      onCellPress,
+      mergedTooltipConfig.enabled,
+      tooltipTrigger,
+      tooltipDate,
+      dismissTooltipOnPress,
+      changeTooltip,
+      updateBrush,
+      toggleSelection,
+    ]
   );
 
   // Handle cell long press
@@ -313,17 +1386,65 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
     (cellData: ProcessedCellData, index: number) => {
       onCellLongPress?.(cellData, index);
       // Show tooltip on long press if enabled
-      if (mergedTooltipConfig.enabled) {
-        const x = cellData.x * (cellSize + cellSpacing);
-        const y = cellData.y * (cellSize + cellSpacing);
-        setTooltipData({
-          data: cellData,
-          position: { x, y },
-          visible: true,
-        });
+      if (mergedTooltipConfig.enabled && tooltipTrigger === 'longPress') {
+        openTooltip(cellData);
+      }
+    },
+    [onCellLongPress, mergedTooltipConfig.enabled, tooltipTrigger, openTooltip]
+  );
+
+  // Hover and focus open the tooltip with their trigger and close it again
+  const handleCellHoverIn = useCallback(
+    (cellData: ProcessedCellData) => {
+      if (mergedTooltipConfig.enabled && tooltipTrigger === 'hover') {
+        openTooltip(cellData);
       }
     },
-    [onCellLongPress, mergedTooltipConfig.enabled, cellSize, cellSpacing]
+    [mergedTooltipConfig.enabled, tooltipTrigger, openTooltip]
+  );
+
+  // Cell with keyboard or TV focus, outlined with the focus ring
+  const [focusedDate, setFocusedDate] = useState<string | null>(null);
+  const focusedDateRef = useRef<string | null>(null);
+  // Last focused cell, which stays the tab stop after focus leaves the grid
+  const [lastFocusedDate, setLastFocusedDate] = useState<string | null>(null);
+
+  const handleCellFocus = useCallback(
+    (cellData: ProcessedCellData, index: number) => {
+      if (cellData.date && cellData.date !== focusedDateRef.current) {
+        focusedDateRef.current = cellData.date;
+        setFocusedDate(cellData.date);
+        setLastFocusedDate(cellData.date);
+        onCellFocus?.(cellData, index);
+      }
+      if (mergedTooltipConfig.enabled && tooltipTrigger === 'focus') {
+        openTooltip(cellData);
+      }
+    },
+    [onCellFocus, mergedTooltipConfig.enabled, tooltipTrigger, openTooltip]
+  );
+
+  const handleCellHoverOut = useCallback(
+    (cellData: ProcessedCellData) => {
+      if (
+        (tooltipTrigger === 'hover' || tooltipTrigger === 'focus') &&
+        cellData.date === tooltipDate
+      ) {
+        changeTooltip(null);
+      }
+    },
+    [tooltipTrigger, tooltipDate, changeTooltip]
+  );
+
+  const handleCellBlur = useCallback(
+    (cellData: ProcessedCellData) => {
+      if (cellData.date === focusedDateRef.current) {
+        focusedDateRef.current = null;
+        setFocusedDate(null);
+      }
+      handleCellHoverOut(cellData);
+    },
+    [handleCellHoverOut]
   );
 
   // Handle cell press in
@@ -357,29 +1478,452 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
     setContainerDimensions({ width: layoutWidth, height: layoutHeight });
   }, []);
 
+  // Dates are bucketed like the data; strings are taken as date keys
+  const findCell = useCallback(
+    (date: Date | string) => {
+      if (typeof date === 'string') {
+        return cellsByDate.get(date);
+      }
+      const key =
+        granularity === 'hour'
+          ? toHourKey(date, resolvedTimeZone)
+          : toDateKey(date, resolvedTimeZone);
+      return cellsByDate.get(key);
+    },
+    [cellsByDate, granularity, resolvedTimeZone]
+  );
+
+  // Cells whose grid slots fall within some grid bounds
+  const getCellsInBounds = useCallback(
+    (bounds: GridBounds) => {
+      const cells = spatialIndex
+        ? spatialIndex.query(bounds).map((index) => processedData[index]!)
+        : processedData.filter(
+            (cell) =>
+              cell.x >= bounds.minColumn &&
+              cell.x <= bounds.maxColumn &&
+              cell.y >= bounds.minRow &&
+              cell.y <= bounds.maxRow
+          );
+      return cells.filter((cell) => cell.date !== '');
+    },
+    [spatialIndex, processedData]
+  );
+
+  // Grid slots at least partly inside the viewport, without a render buffer
+  const viewportBounds = useMemo(
+    () =>
+      calculateVisibleGridBounds(gridViewport, {
+        enabled: true,
+        bufferSize: 0,
+        threshold: 0,
+        cellSize,
+        cellSpacing,
+      }),
+    [gridViewport, cellSize, cellSpacing]
+  );
+  const isCellInViewport = useCallback(
+    (cell: ProcessedCellData) =>
+      cell.x >= viewportBounds.minColumn &&
+      cell.x <= viewportBounds.maxColumn &&
+      cell.y >= viewportBounds.minRow &&
+      cell.y <= viewportBounds.maxRow,
+    [viewportBounds]
+  );
+
+  // Pan so a cell is centered in the viewport
+  const scrollToCell = useCallback(
+    (cell: ProcessedCellData, animate: boolean) => {
+      // Center of the cell in the untransformed content
+      const centerX = getCellX(cell.x) + cellSize / 2 + viewBoxPadding.left;
+      const centerY =
+        cell.y * (cellSize + cellSpacing) + cellSize / 2 + viewBoxPadding.top;
+      const { scale: zoom } = transformRef.current;
+      animateTransform(
+        {
+          translateX: viewportSize.width / 2 - centerX * zoom,
+          translateY: viewportSize.height / 2 - centerY * zoom,
+          scale: zoom,
+        },
+        animate
+      );
+    },
+    [
+      getCellX,
+      cellSize,
+      cellSpacing,
+      viewBoxPadding.left,
+      viewBoxPadding.top,
+      viewportSize,
+      animateTransform,
+    ]
+  );
+
+  // Cells in the viewport are exposed to screen readers one by one, after a
+  // summary element, so the container is then not an accessibility element
+  // The table fallback replaces them with a hidden list
+  const tableFallback = accessibleFallback === 'table';
+  const cellsAccessible = !tableFallback && (accessibility.cells ?? true);
+  const { cellLabel } = accessibility;
+  const getCellLabel = useCallback(
+    (cell: ProcessedCellData) =>
+      cellLabel ? cellLabel(cell) : formatCellAccessibilityLabel(cell, locale),
+    [cellLabel, locale]
+  );
+
+  // Dated cells grouped by month for the table fallback
+  const cellsByMonth = useMemo(() => {
+    const months = new Map<string, ProcessedCellData[]>();
+    if (!tableFallback) {
+      return months;
+    }
+    processedData.forEach((cell) => {
+      if (cell.date) {
+        const month = cell.date.slice(0, 7);
+        const cells = months.get(month);
+        if (cells) {
+          cells.push(cell);
+        } else {
+          months.set(month, [cell]);
+        }
+      }
+    });
+    return months;
+  }, [tableFallback, processedData]);
+
+  // Hidden list read by screen readers in place of the grid
+  const renderAccessibleTable = () => (
+    <View style={styles.visuallyHidden} testID="heatmap-accessible-table">
+      <Text style={styles.visuallyHiddenText}>
+        {accessibility.label ?? summaryText}
+      </Text>
+      {[...cellsByMonth].map(([month, cells]) => (
+        <View key={month} accessibilityRole="list">
+          <Text style={styles.visuallyHiddenText} accessibilityRole="header">
+            {formatDateKeyLabel(
+              `${month}-01`,
+              { month: 'long', year: 'numeric' },
+              locale
+            )}
+          </Text>
+          {cells.map((cell) => (
+            <Text key={cell.date} style={styles.visuallyHiddenText}>
+              {getCellLabel(cell)}
+            </Text>
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+
+  // Rendered cells by date, to move accessibility focus between them
+  const cellNodesRef = useRef(new Map<string, any>());
+  const cellRefCallbacksRef = useRef(new Map<string, (node: any) => void>());
+  const getCellRef = useCallback((date: string) => {
+    let callback = cellRefCallbacksRef.current.get(date);
+    if (!callback) {
+      callback = (node: any) => {
+        if (node) {
+          cellNodesRef.current.set(date, node);
+        } else {
+          cellNodesRef.current.delete(date);
+        }
+      };
+      cellRefCallbacksRef.current.set(date, callback);
+    }
+    return callback;
+  }, []);
+
+  // Cell to focus once it has been scrolled into view and rendered, for
+  // screen readers or the keyboard
+  const pendingFocusRef = useRef<{
+    date: string;
+    keyboard: boolean;
+  } | null>(null);
+
+  const focusCellNode = useCallback((date: string, keyboard: boolean) => {
+    const node = cellNodesRef.current.get(date);
+    if (keyboard) {
+      // Only react-native-web nodes can take keyboard focus
+      node?.focus?.();
+      return node != null;
+    }
+    const handle = findNodeHandle(node);
+    if (handle) {
+      AccessibilityInfo.setAccessibilityFocus(handle);
+    }
+    return handle != null;
+  }, []);
+
+  useEffect(() => {
+    const pending = pendingFocusRef.current;
+    const cell = pending ? cellsByDate.get(pending.date) : undefined;
+    if (
+      pending &&
+      cell &&
+      isCellInViewport(cell) &&
+      focusCellNode(pending.date, pending.keyboard)
+    ) {
+      pendingFocusRef.current = null;
+    }
+  });
+
+  const focusCell = useCallback(
+    (cell: ProcessedCellData, keyboard = false) => {
+      if (isCellInViewport(cell) && focusCellNode(cell.date, keyboard)) {
+        return;
+      }
+      pendingFocusRef.current = { date: cell.date, keyboard };
+      scrollToCell(cell, false);
+    },
+    [isCellInViewport, focusCellNode, scrollToCell]
+  );
+
+  // Arrow keys move focus across the grid, Enter calls onCellPress for the
+  // focused cell and Space toggles its selection (react-native-web)
+  const cellsByPosition = useMemo(
+    () => indexCellsByPosition(processedData),
+    [processedData]
+  );
+
+  const handleKeyDown = useCallback(
+    (event: HeatmapKeyEvent) => {
+      const { key } = event.nativeEvent;
+      const cell = focusedDate ? cellsByDate.get(focusedDate) : undefined;
+      if (!cell) {
+        return;
+      }
+
+      if (key === 'Enter') {
+        event.preventDefault?.();
+        onCellPress?.(cell, processedData.indexOf(cell));
+        return;
+      }
+      if (key === ' ') {
+        event.preventDefault?.();
+        toggleSelection(cell.date);
+        return;
+      }
+
+      const target = getKeyboardNavigationTarget(
+        cell,
+        key,
+        cellsByPosition,
+        direction
+      );
+      if (target) {
+        event.preventDefault?.();
+        handleCellFocus(target, processedData.indexOf(target));
+        focusCell(target, true);
+      }
+    },
+    [
+      focusedDate,
+      cellsByDate,
+      onCellPress,
+      processedData,
+      toggleSelection,
+      cellsByPosition,
+      direction,
+      handleCellFocus,
+      focusCell,
+    ]
+  );
+
+  // Focus ring just outside the focused cell
+  const focusedCell = focusedDate ? cellsByDate.get(focusedDate) : undefined;
+  const focusRingRect = focusedCell
+    ? {
+        x: getCellX(focusedCell.x) - FOCUS_RING_OFFSET,
+        y: focusedCell.y * (cellSize + cellSpacing) - FOCUS_RING_OFFSET,
+        width: cellSize + FOCUS_RING_OFFSET * 2,
+        height: cellSize + FOCUS_RING_OFFSET * 2,
+      }
+    : null;
+
+  // Swipes on a focused cell move to the next or previous day or week
+  const handleCellAccessibilityAction = useCallback(
+    (cellData: ProcessedCellData, _index: number, actionName: string) => {
+      const action = ACCESSIBILITY_ACTION_STEPS[actionName];
+      if (!action) {
+        return;
+      }
+      const step =
+        action.unit === 'day' && granularity === 'hour'
+          ? action.step * 24
+          : action.step;
+      const target = orderedDates[orderedDates.indexOf(cellData.date) + step];
+      const targetCell = target ? cellsByDate.get(target) : undefined;
+      if (targetCell) {
+        focusCell(targetCell);
+      }
+    },
+    [granularity, orderedDates, cellsByDate, focusCell]
+  );
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      scrollToDate: (date, options?: HeatmapScrollOptions) => {
+        const cell = findCell(date);
+        if (cell) {
+          scrollToCell(cell, options?.animated ?? true);
+        }
+      },
+      zoomTo: (nextScale, options?: HeatmapScrollOptions) => {
+        const { minZoom, maxZoom } = calculateZoomBounds(
+          contentSize,
+          viewportSize,
+          mergedGestureConfig
+        );
+        animateTransform(
+          zoomAroundPoint(
+            transformRef.current,
+            clampValue(nextScale, minZoom, maxZoom),
+            { x: viewportSize.width / 2, y: viewportSize.height / 2 }
+          ),
+          options?.animated ?? true
+        );
+      },
+      resetZoom: (options?: HeatmapScrollOptions) => {
+        animateTransform(IDENTITY_TRANSFORM, options?.animated ?? true);
+      },
+      showTooltip: (date) => {
+        const cell = findCell(date);
+        if (cell) {
+          openTooltip(cell);
+        }
+      },
+      hideTooltip: () => {
+        changeTooltip(null);
+      },
+      getCellAt: (x, y) => {
+        const local = { x: x - contentOffset.x, y: y - contentOffset.y };
+        if (
+          local.x < 0 ||
+          local.y < 0 ||
+          local.x > viewportSize.width ||
+          local.y > viewportSize.height
+        ) {
+          return null;
+        }
+
+        // Points in the spacing between cells hit no cell
+        const point = toGridPoint(local);
+        const step = cellSize + cellSpacing;
+        if (
+          point.x < 0 ||
+          point.y < 0 ||
+          point.x % step > cellSize ||
+          point.y % step > cellSize
+        ) {
+          return null;
+        }
+
+        const { column, row } = getGridPosition(point, cellSize, cellSpacing);
+        return (
+          getCellsInBounds({
+            minColumn: column,
+            maxColumn: column,
+            minRow: row,
+            maxRow: row,
+          })[0] ?? null
+        );
+      },
+      getVisibleDateRange: () => {
+        const dates = getCellsInBounds(viewportBounds)
+          .map((cell) => cell.date)
+          .sort();
+        return dates.length > 0
+          ? { start: dates[0]!, end: dates[dates.length - 1]! }
+          : null;
+      },
+      clearSelection,
+    }),
+    [
+      findCell,
+      scrollToCell,
+      cellSize,
+      cellSpacing,
+      viewportSize,
+      contentSize,
+      mergedGestureConfig,
+      animateTransform,
+      openTooltip,
+      changeTooltip,
+      contentOffset,
+      toGridPoint,
+      getCellsInBounds,
+      viewportBounds,
+      clearSelection,
+    ]
+  );
+
+  // Roving tabindex: Tab reaches a single cell, the last focused one while
+  // it is in view or else the first dated cell in view
+  const tabStopDate = useMemo(() => {
+    const last = lastFocusedDate ? cellsByDate.get(lastFocusedDate) : undefined;
+    if (last && isCellInViewport(last)) {
+      return last.date;
+    }
+    return (
+      processedData.find((cell) => cell.date && isCellInViewport(cell))?.date ??
+      null
+    );
+  }, [lastFocusedDate, cellsByDate, isCellInViewport, processedData]);
+
   // Render cell based on animation support
   const renderCell = useCallback(
     (cellData: ProcessedCellData, index: number) => {
-      // Use AnimatedCell if animations are enabled and supported
-      if (mergedAnimationConfig.enabled && isAnimationSupported()) {
+      // Cells are keyed by date so they keep their state as the range shifts
+      const key = cellData.date || `filler-${index}`;
+
+      // Filler cells and cells in the render buffer stay hidden
+      const cellAccessibilityLabel =
+        cellsAccessible && cellData.date && isCellInViewport(cellData)
+          ? getCellLabel(cellData)
+          : undefined;
+      const cellRef = cellData.date ? getCellRef(cellData.date) : undefined;
+
+      // Animated cells only need React Native's Animated, not reanimated
+      if (mergedAnimationConfig.enabled) {
         return (
           <AnimatedCell
-            key={`cell-${index}`}
+            key={key}
             data={cellData}
             index={index}
             totalCells={processedData.length}
             cellSize={cellSize}
             cellSpacing={cellSpacing}
+            direction={direction}
+            contentWidth={finalWidth}
             cellShape={cellShape}
             animationConfig={mergedAnimationConfig}
+            entryTiming={entrySchedule[index]}
+            colorScheme={resolvedColorScheme}
+            highlight={highlightConfig}
+            highlightActive={liveDates.has(cellData.date)}
+            highlightCount={highlightCounts.get(cellData.date)}
+            entering={!committedCellsByDate.has(cellData.date)}
             borderColor={mergedTheme.colors.border}
             borderWidth={0.5}
+            selected={selectedDateSet.has(cellData.date)}
+            selectionColor={mergedTheme.colors.selection}
             cellStyle={cellStyle}
             onPress={handleCellPress}
             onLongPress={handleCellLongPress}
             onPressIn={handleCellPressIn}
             onPressOut={handleCellPressOut}
             onDoublePress={handleCellDoublePress}
+            onHoverIn={handleCellHoverIn}
+            onHoverOut={handleCellHoverOut}
+            onFocus={handleCellFocus}
+            tabStop={cellData.date === tabStopDate}
+            onBlur={handleCellBlur}
+            accessibilityLabel={cellAccessibilityLabel}
+            accessibilityActions={cellAccessibilityActions}
+            onAccessibilityAction={handleCellAccessibilityAction}
+            cellRef={cellRef}
             hapticFeedback={mergedGestureConfig.hapticFeedback}
             useSvg={true}
           />
@@ -387,8 +1931,9 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
       }
 
       // Fallback to SVG rendering
-      const x = cellData.x * (cellSize + cellSpacing);
+      const x = getCellX(cellData.x);
       const y = cellData.y * (cellSize + cellSpacing);
+      const selected = selectedDateSet.has(cellData.date);
 
       const cellProps = {
         x,
@@ -396,17 +1941,42 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
         width: cellSize,
         height: cellSize,
         fill: cellData.color,
-        stroke: mergedTheme.colors.border,
-        strokeWidth: 0.5,
+        stroke: selected
+          ? mergedTheme.colors.selection
+          : mergedTheme.colors.border,
+        strokeWidth: selected ? SELECTED_OUTLINE_WIDTH : 0.5,
         onPress: () => handleCellPress(cellData, index),
         onLongPress: () => handleCellLongPress(cellData, index),
+        onPointerEnter: () => handleCellHoverIn(cellData),
+        onPointerLeave: () => handleCellHoverOut(cellData),
+        onFocus: () => handleCellFocus(cellData, index),
+        onBlur: () => handleCellBlur(cellData),
+        ...(cellData.date
+          ? getCellFocusProps(cellData.date === tabStopDate)
+          : {}),
+        ...(cellAccessibilityLabel
+          ? {
+              accessible: true,
+              accessibilityLabel: cellAccessibilityLabel,
+              accessibilityRole: 'adjustable' as const,
+              accessibilityState: { selected },
+              accessibilityActions: cellAccessibilityActions,
+              onAccessibilityAction: (event: any) =>
+                handleCellAccessibilityAction(
+                  cellData,
+                  index,
+                  event.nativeEvent.actionName
+                ),
+            }
+          : { accessible: false }),
         ...cellStyle,
       };
 
       if (cellShape === 'circle') {
         return (
           <Rect
-            key={`cell-${index}`}
+            key={key}
+            ref={cellRef}
             {...cellProps}
             rx={cellSize / 2}
             ry={cellSize / 2}
@@ -415,23 +1985,45 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
       }
 
       if (cellShape === 'rounded') {
-        return <Rect key={`cell-${index}`} {...cellProps} rx={2} ry={2} />;
+        return <Rect key={key} ref={cellRef} {...cellProps} rx={2} ry={2} />;
       }
 
       // Default square shape
-      return <Rect key={`cell-${index}`} {...cellProps} />;
+      return <Rect key={key} ref={cellRef} {...cellProps} />;
     },
     [
       cellSize,
       cellSpacing,
+      direction,
+      finalWidth,
+      getCellX,
       cellShape,
+      resolvedColorScheme,
+      entrySchedule,
+      highlightConfig,
+      liveDates,
+      highlightCounts,
+      committedCellsByDate,
       mergedTheme.colors.border,
+      mergedTheme.colors.selection,
+      selectedDateSet,
       cellStyle,
       handleCellPress,
       handleCellLongPress,
       handleCellPressIn,
       handleCellPressOut,
       handleCellDoublePress,
+      handleCellHoverIn,
+      handleCellHoverOut,
+      handleCellFocus,
+      handleCellBlur,
+      tabStopDate,
+      handleCellAccessibilityAction,
+      cellsAccessible,
+      isCellInViewport,
+      getCellLabel,
+      cellAccessibilityActions,
+      getCellRef,
       mergedAnimationConfig,
       mergedGestureConfig.hapticFeedback,
       processedData.length,
@@ -445,8 +2037,32 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
     }
 
     return calendarLayout.monthBoundaries.map((month, index) => {
-      const x = month.x * (cellSize + cellSpacing);
-      const y = -mergedTheme.typography.fontSize - 5;
+      if (
+        !isSpanVisible(
+          month.x,
+          month.width,
+          isVerticalCalendar ? 'row' : 'column'
+        )
+      ) {
+        return null;
+      }
+
+      // Vertical calendars label each month's first row on the leading side
+      const x = isVerticalCalendar
+        ? isRTL
+          ? finalWidth + 5
+          : -5
+        : getAxisLabelX(month.x);
+      const y = isVerticalCalendar
+        ? month.x * (cellSize + cellSpacing) +
+          cellSize / 2 +
+          mergedTheme.typography.fontSize / 2
+        : -mergedTheme.typography.fontSize - 5;
+      const anchor = isVerticalCalendar
+        ? isRTL
+          ? 'start'
+          : 'end'
+        : axisLabelAnchor;
 
       return (
         <SvgText
@@ -457,9 +2073,14 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
           fontFamily={mergedTheme.typography.fontFamily}
           fontWeight={mergedTheme.typography.fontWeight}
           fill={mergedTheme.colors.text}
+          textAnchor={anchor}
           {...labelStyle}
         >
-          {month.month}
+          {formatAxisLabel(isVerticalCalendar ? 'y' : 'x', month.month, {
+            type: 'month',
+            index,
+            date: month.date,
+          })}
         </SvgText>
       );
     });
@@ -467,11 +2088,18 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
     showMonthLabels,
     layout,
     calendarLayout,
-    cellSize,
-    cellSpacing,
     mergedTheme.typography,
     mergedTheme.colors.text,
     labelStyle,
+    formatAxisLabel,
+    getAxisLabelX,
+    axisLabelAnchor,
+    isVerticalCalendar,
+    isRTL,
+    finalWidth,
+    cellSize,
+    cellSpacing,
+    isSpanVisible,
   ]);
 
   // Render weekday labels for calendar layout
@@ -480,14 +2108,24 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
       return null;
     }
 
-    const weekdays = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
-    const x = -mergedTheme.typography.fontSize - 5;
-
-    return weekdays.map((day, index) => {
-      const y =
-        index * (cellSize + cellSpacing) +
-        cellSize / 2 +
-        mergedTheme.typography.fontSize / 2;
+    return Array.from({ length: 7 }, (_, index) => {
+      if (!isSpanVisible(index, 1, isVerticalCalendar ? 'column' : 'row')) {
+        return null;
+      }
+      // Rows (columns when vertical) start on the first day of the week
+      const day = formatWeekdayLabel(
+        (index + weekStartsOn) % 7,
+        locale,
+        'narrow'
+      );
+      const x = isVerticalCalendar
+        ? getCellX(index) + cellSize / 2
+        : sideLabelX;
+      const y = isVerticalCalendar
+        ? -mergedTheme.typography.fontSize - 5
+        : index * (cellSize + cellSpacing) +
+          cellSize / 2 +
+          mergedTheme.typography.fontSize / 2;
 
       return (
         <SvgText
@@ -501,18 +2139,30 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
           textAnchor="middle"
           {...labelStyle}
         >
-          {day}
+          {formatAxisLabel(isVerticalCalendar ? 'x' : 'y', day, {
+            type: 'weekday',
+            index,
+            date: calendarLayout?.weekData[0]?.[index]?.date,
+          })}
         </SvgText>
       );
     });
   }, [
     showWeekdayLabels,
     layout,
+    weekStartsOn,
+    locale,
+    calendarLayout,
     cellSize,
     cellSpacing,
     mergedTheme.typography,
     mergedTheme.colors.text,
     labelStyle,
+    formatAxisLabel,
+    sideLabelX,
+    isVerticalCalendar,
+    getCellX,
+    isSpanVisible,
   ]);
 
   // Render time-based labels
@@ -527,7 +2177,10 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
     if (layout === 'daily' && timeBasedLayouts.daily) {
       const hourLabels = timeBasedLayouts.daily.timeBoundaries.map(
         (boundary, index) => {
-          const x = boundary.x * (cellSize + cellSpacing);
+          if (!isSpanVisible(boundary.x, 1, 'column')) {
+            return null;
+          }
+          const x = getAxisLabelX(boundary.x);
           const y = -mergedTheme.typography.fontSize - 5;
 
           return (
@@ -539,9 +2192,14 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
               fontFamily={mergedTheme.typography.fontFamily}
               fontWeight={mergedTheme.typography.fontWeight}
               fill={mergedTheme.colors.text}
+              textAnchor={axisLabelAnchor}
               {...labelStyle}
             >
-              {boundary.hour}
+              {formatAxisLabel('x', boundary.hour, {
+                type: 'hour',
+                index,
+                date: timeBasedLayouts.daily?.hourData[index]?.date,
+              })}
             </SvgText>
           );
         }
@@ -553,7 +2211,10 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
     if (layout === 'weekly' && timeBasedLayouts.weekly) {
       const dayLabels = timeBasedLayouts.weekly.dayBoundaries.map(
         (boundary, index) => {
-          const x = boundary.x * (cellSize + cellSpacing);
+          if (!isSpanVisible(boundary.x, 1, 'column')) {
+            return null;
+          }
+          const x = getAxisLabelX(boundary.x);
           const y = -mergedTheme.typography.fontSize - 5;
 
           return (
@@ -565,9 +2226,14 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
               fontFamily={mergedTheme.typography.fontFamily}
               fontWeight={mergedTheme.typography.fontWeight}
               fill={mergedTheme.colors.text}
+              textAnchor={axisLabelAnchor}
               {...labelStyle}
             >
-              {boundary.day}
+              {formatAxisLabel('x', boundary.day, {
+                type: 'day',
+                index,
+                date: timeBasedLayouts.weekly?.dayData[index]?.date,
+              })}
             </SvgText>
           );
         }
@@ -579,7 +2245,10 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
     if (layout === 'monthly' && timeBasedLayouts.monthly) {
       const weekLabels = timeBasedLayouts.monthly.weekBoundaries.map(
         (boundary, index) => {
-          const x = -mergedTheme.typography.fontSize - 5;
+          if (!isSpanVisible(boundary.week, 1, 'row')) {
+            return null;
+          }
+          const x = sideLabelX;
           const y = boundary.week * (cellSize + cellSpacing) + cellSize / 2;
 
           return (
@@ -593,7 +2262,13 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
               fill={mergedTheme.colors.text}
               {...labelStyle}
             >
-              {`W${boundary.week}`}
+              {formatAxisLabel('y', `W${boundary.weekNumber}`, {
+                type: 'week',
+                index,
+                date: timeBasedLayouts.monthly?.monthData[index]?.find(
+                  (cell) => cell.date !== ''
+                )?.date,
+              })}
             </SvgText>
           );
         }
@@ -605,7 +2280,10 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
     if (layout === 'yearly' && timeBasedLayouts.yearly) {
       const monthLabels = timeBasedLayouts.yearly.monthBoundaries.map(
         (boundary, index) => {
-          const x = boundary.x * (cellSize + cellSpacing);
+          if (!isSpanVisible(boundary.x, boundary.width, 'column')) {
+            return null;
+          }
+          const x = getAxisLabelX(boundary.x);
           const y = -mergedTheme.typography.fontSize - 5;
 
           return (
@@ -617,9 +2295,14 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
               fontFamily={mergedTheme.typography.fontFamily}
               fontWeight={mergedTheme.typography.fontWeight}
               fill={mergedTheme.colors.text}
+              textAnchor={axisLabelAnchor}
               {...labelStyle}
             >
-              {boundary.month}
+              {formatAxisLabel('x', boundary.month, {
+                type: 'month',
+                index,
+                date: boundary.date,
+              })}
             </SvgText>
           );
         }
@@ -631,7 +2314,10 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
     if (layout === 'customRange' && timeBasedLayouts.customRange) {
       const periodLabels = timeBasedLayouts.customRange.periodBoundaries.map(
         (boundary, index) => {
-          const x = boundary.x * (cellSize + cellSpacing);
+          if (!isSpanVisible(boundary.x, 1, 'column')) {
+            return null;
+          }
+          const x = getAxisLabelX(boundary.x);
           const y = -mergedTheme.typography.fontSize - 5;
 
           return (
@@ -643,9 +2329,14 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
               fontFamily={mergedTheme.typography.fontFamily}
               fontWeight={mergedTheme.typography.fontWeight}
               fill={mergedTheme.colors.text}
+              textAnchor={axisLabelAnchor}
               {...labelStyle}
             >
-              {boundary.period}
+              {formatAxisLabel('x', boundary.period, {
+                type: 'period',
+                index,
+                date: timeBasedLayouts.customRange?.rangeData[index]?.date,
+              })}
             </SvgText>
           );
         }
@@ -657,7 +2348,10 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
     if (layout === 'timelineScroll' && timeBasedLayouts.timelineScroll) {
       const scrollLabels = timeBasedLayouts.timelineScroll.scrollMarkers.map(
         (marker, index) => {
-          const x = marker.position * (cellSize + cellSpacing);
+          if (!isSpanVisible(marker.position, 1, 'column')) {
+            return null;
+          }
+          const x = getAxisLabelX(marker.position);
           const y = -mergedTheme.typography.fontSize - 5;
 
           return (
@@ -669,9 +2363,14 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
               fontFamily={mergedTheme.typography.fontFamily}
               fontWeight={mergedTheme.typography.fontWeight}
               fill={mergedTheme.colors.text}
+              textAnchor={axisLabelAnchor}
               {...labelStyle}
             >
-              {marker.label}
+              {formatAxisLabel('x', marker.label, {
+                type: 'marker',
+                index,
+                date: marker.timestamp,
+              })}
             </SvgText>
           );
         }
@@ -689,71 +2388,169 @@ const Heatmap: React.FC<HeatmapProps> = (props) => {
     mergedTheme.typography,
     mergedTheme.colors.text,
     labelStyle,
+    formatAxisLabel,
+    getAxisLabelX,
+    axisLabelAnchor,
+    sideLabelX,
+    isSpanVisible,
   ]);
 
-  // Calculate SVG viewBox with padding for labels
-  const viewBoxPadding = {
-    left:
-      (showWeekdayLabels && layout === 'calendar') ||
-      (showTimeLabels && (layout === 'monthly' || layout === 'yearly'))
-        ? mergedTheme.typography.fontSize + 10
-        : 0,
-    top:
-      (showMonthLabels && layout === 'calendar') ||
-      (showTimeLabels &&
-        (layout === 'daily' ||
-          layout === 'weekly' ||
-          layout === 'yearly' ||
-          layout === 'customRange' ||
-          layout === 'timelineScroll'))
-        ? mergedTheme.typography.fontSize + 10
-        : 0,
-  };
-
-  const viewBoxWidth = finalWidth + viewBoxPadding.left;
-  const viewBoxHeight = finalHeight + viewBoxPadding.top;
-
   return (
-    <View
+    <KeyboardView
       style={[
         styles.container,
         { backgroundColor: mergedTheme.colors.background },
         style,
       ]}
-      accessible={true}
-      accessibilityLabel={accessibility.label}
+      accessible={!cellsAccessible && !tableFallback}
+      accessibilityLabel={accessibilityLabel}
       accessibilityRole={accessibility.role as any}
       onLayout={handleContainerLayout}
+      onKeyDown={handleKeyDown}
     >
-      <Svg
-        ref={gestureRef}
-        width={viewBoxWidth}
-        height={viewBoxHeight}
-        viewBox={`-${viewBoxPadding.left} -${viewBoxPadding.top} ${viewBoxWidth} ${viewBoxHeight}`}
+      {cellsAccessible && (
+        <View style={styles.visuallyHidden}>
+          <Text
+            accessible
+            accessibilityRole="summary"
+            style={styles.visuallyHiddenText}
+          >
+            {accessibilityLabel}
+          </Text>
+        </View>
+      )}
+
+      <GestureWrapper
+        config={mergedGestureConfig}
+        style={[styles.gestureArea, viewportSize]}
+        contentSize={contentSize}
+        containerSize={viewportSize}
+        onLayout={handleContentLayout}
+        onPanGesture={handlePanGesture}
+        onPanGestureEnd={handlePanGestureEnd}
+        onZoomGesture={handleZoomGesture}
+        onZoomGestureEnd={handleZoomGestureEnd}
+        onBrushStart={handleBrushStart}
+        onBrushGesture={handleBrushGesture}
+        onBrushEnd={handleBrushEnd}
       >
-        <G>
-          {renderMonthLabels()}
-          {renderWeekdayLabels()}
-          {renderTimeBasedLabels()}
-          {processedData.map(renderCell)}
-        </G>
-      </Svg>
+        <View
+          style={[
+            styles.transformOrigin,
+            {
+              transform: [
+                { translateX: transform.translateX },
+                { translateY: transform.translateY },
+                { scale: transform.scale },
+              ],
+            },
+          ]}
+        >
+          <Svg
+            width={viewBoxWidth}
+            height={viewBoxHeight}
+            viewBox={`-${viewBoxPadding.left} -${viewBoxPadding.top} ${viewBoxWidth} ${viewBoxHeight}`}
+          >
+            <G>
+              {/* Presses outside the cells dismiss the tooltip */}
+              {tooltipCell && dismissTooltipOnPress && (
+                <Rect
+                  testID="tooltip-dismiss"
+                  x={-viewBoxPadding.left}
+                  y={-viewBoxPadding.top}
+                  width={viewBoxWidth}
+                  height={viewBoxHeight}
+                  fill="transparent"
+                  onPress={() => changeTooltip(null)}
+                />
+              )}
+              {renderMonthLabels()}
+              {renderWeekdayLabels()}
+              {renderTimeBasedLabels()}
+              {visibleRange.visibleIndices.map((index) =>
+                renderCell(processedData[index]!, index)
+              )}
+              {exitingCells.map((cellData) => (
+                <AnimatedCell
+                  key={`exiting-${cellData.date}`}
+                  data={cellData}
+                  index={0}
+                  totalCells={processedData.length}
+                  cellSize={cellSize}
+                  cellSpacing={cellSpacing}
+                  direction={direction}
+                  contentWidth={finalWidth}
+                  cellShape={cellShape}
+                  animationConfig={mergedAnimationConfig}
+                  borderColor={mergedTheme.colors.border}
+                  borderWidth={0.5}
+                  cellStyle={cellStyle}
+                  exiting
+                  onExited={handleCellExited}
+                />
+              ))}
+              {focusRingRect && (
+                <Rect
+                  testID="focus-ring"
+                  {...focusRingRect}
+                  rx={cellShape === 'circle' ? focusRingRect.width / 2 : 3}
+                  fill="none"
+                  stroke={mergedTheme.colors.focus}
+                  strokeWidth={FOCUS_RING_WIDTH}
+                  pointerEvents="none"
+                />
+              )}
+              {brushRect && (
+                <Rect
+                  testID="brush"
+                  {...brushRect}
+                  fill={mergedTheme.colors.selection}
+                  fillOpacity={0.2}
+                  stroke={mergedTheme.colors.selection}
+                  strokeWidth={1}
+                  pointerEvents="none"
+                />
+              )}
+              {legendLayout && (
+                <Legend
+                  layout={legendLayout}
+                  swatchSize={legendSwatchSize}
+                  x={legendOrigin.x}
+                  y={legendOrigin.y}
+                  theme={mergedTheme}
+                  labelStyle={labelStyle}
+                />
+              )}
+            </G>
+          </Svg>
+        </View>
+      </GestureWrapper>
 
       {/* Tooltip */}
-      {tooltipData && (
+      {tooltipCell && tooltipPosition && (
         <Tooltip
-          data={tooltipData.data}
-          cellPosition={tooltipData.position}
-          cellSize={cellSize}
+          data={tooltipCell}
+          cellPosition={{
+            x: contentOffset.x + tooltipPosition.x,
+            y: contentOffset.y + tooltipPosition.y,
+          }}
+          cellSize={cellSize * transform.scale}
           config={mergedTooltipConfig}
           theme={mergedTheme}
           containerDimensions={containerDimensions}
-          visible={tooltipData.visible}
+          visible={true}
+          steps={legendSteps}
+          locale={locale}
+          direction={direction}
         />
       )}
-    </View>
+
+      {tableFallback && renderAccessibleTable()}
+    </KeyboardView>
   );
-};
+});
+
+Heatmap.displayName = 'Heatmap';
 
 const styles = StyleSheet.create({
   container: {
@@ -761,6 +2558,22 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     position: 'relative',
   },
+  gestureArea: {
+    overflow: 'hidden',
+  },
+  transformOrigin: {
+    transformOrigin: 'top left',
+  },
+  // Kept on screen so screen readers still reach it
+  visuallyHidden: {
+    position: 'absolute',
+    width: 1,
+    height: 1,
+    overflow: 'hidden',
+  },
+  visuallyHiddenText: {
+    color: 'transparent',
+  },
 });
 
 export default Heatmap;
@@ -0,0 +1,250 @@
+/**
+ * Legend component for React Native Heatmap
+ * Renders the color scale with "Less … More" captions or numeric ticks
+ */
+
+import React from 'react';
+import { Rect, Text as SvgText, G } from 'react-native-svg';
+import type { LegendConfig, LegendStep, Theme } from '../types';
+import { formatValueLabel } from '../utils';
+
+/**
+ * Computed legend geometry, relative to the legend origin
+ */
+export interface LegendLayout {
+  /** Total legend width */
+  width: number;
+  /** Total legend height */
+  height: number;
+  /** Color swatches */
+  swatches: Array<{ x: number; y: number; color: string }>;
+  /** Text labels */
+  labels: Array<{
+    x: number;
+    y: number;
+    text: string;
+    anchor: 'start' | 'middle' | 'end';
+  }>;
+}
+
+interface LegendProps {
+  /** Precomputed legend layout */
+  layout: LegendLayout;
+  /** Swatch size */
+  swatchSize: number;
+  /** Legend origin X (in heatmap content coordinates) */
+  x: number;
+  /** Legend origin Y (in heatmap content coordinates) */
+  y: number;
+  /** Theme configuration */
+  theme: Theme;
+  /** Border color for swatches */
+  borderColor?: string;
+  /** Custom label styles */
+  labelStyle?: any;
+}
+
+/**
+ * Default legend configuration
+ */
+export const DEFAULT_LEGEND_CONFIG: Required<
+  Omit<LegendConfig, 'swatchSize' | 'formatValue'>
+> = {
+  mode: 'lessMore',
+  lessLabel: 'Less',
+  moreLabel: 'More',
+};
+
+/**
+ * Gap between legend swatches and their captions
+ */
+const LABEL_GAP = 4;
+
+/**
+ * Rough text width estimate (SVG text cannot be measured before render)
+ */
+export function estimateTextWidth(text: string, fontSize: number): number {
+  return text.length * fontSize * 0.6;
+}
+
+/**
+ * Calculate legend geometry for the given steps and orientation
+ */
+export function calculateLegendLayout(
+  steps: LegendStep[],
+  config: LegendConfig,
+  orientation: 'horizontal' | 'vertical',
+  swatchSize: number,
+  swatchSpacing: number,
+  fontSize: number,
+  locale: string = 'en-US'
+): LegendLayout {
+  const mode = config.mode ?? DEFAULT_LEGEND_CONFIG.mode;
+  const formatValue =
+    config.formatValue ?? ((value: number) => formatValueLabel(value, locale));
+  const swatches: LegendLayout['swatches'] = [];
+  const labels: LegendLayout['labels'] = [];
+
+  if (mode === 'ticks') {
+    const tickLabels = steps.map((step) => formatValue(step.value));
+    const widestLabel = Math.max(
+      0,
+      ...tickLabels.map((label) => estimateTextWidth(label, fontSize))
+    );
+
+    if (orientation === 'horizontal') {
+      const column = Math.max(swatchSize, widestLabel) + swatchSpacing;
+
+      steps.forEach((step, index) => {
+        const x = index * column + (column - swatchSpacing - swatchSize) / 2;
+        swatches.push({ x, y: 0, color: step.color });
+        labels.push({
+          x: x + swatchSize / 2,
+          y: swatchSize + LABEL_GAP + fontSize,
+          text: tickLabels[index] as string,
+          anchor: 'middle',
+        });
+      });
+
+      return {
+        width: Math.max(0, steps.length * column - swatchSpacing),
+        height: swatchSize + LABEL_GAP + fontSize,
+        swatches,
+        labels,
+      };
+    }
+
+    const row = Math.max(swatchSize, fontSize) + swatchSpacing;
+
+    steps.forEach((step, index) => {
+      const y = index * row;
+      swatches.push({ x: 0, y, color: step.color });
+      labels.push({
+        x: swatchSize + LABEL_GAP,
+        y: y + swatchSize / 2 + fontSize / 2,
+        text: tickLabels[index] as string,
+        anchor: 'start',
+      });
+    });
+
+    return {
+      width: swatchSize + LABEL_GAP + widestLabel,
+      height: Math.max(0, steps.length * row - swatchSpacing),
+      swatches,
+      labels,
+    };
+  }
+
+  const lessLabel = config.lessLabel ?? DEFAULT_LEGEND_CONFIG.lessLabel;
+  const moreLabel = config.moreLabel ?? DEFAULT_LEGEND_CONFIG.moreLabel;
+  const lessWidth = estimateTextWidth(lessLabel, fontSize);
+  const moreWidth = estimateTextWidth(moreLabel, fontSize);
+  const scaleLength = Math.max(
+    0,
+    steps.length * (swatchSize + swatchSpacing) - swatchSpacing
+  );
+
+  if (orientation === 'horizontal') {
+    const height = Math.max(swatchSize, fontSize);
+    const swatchY = (height - swatchSize) / 2;
+    const scaleStart = lessWidth + LABEL_GAP;
+
+    labels.push({
+      x: 0,
+      y: height / 2 + fontSize / 2,
+      text: lessLabel,
+      anchor: 'start',
+    });
+    steps.forEach((step, index) => {
+      swatches.push({
+        x: scaleStart + index * (swatchSize + swatchSpacing),
+        y: swatchY,
+        color: step.color,
+      });
+    });
+    labels.push({
+      x: scaleStart + scaleLength + LABEL_GAP,
+      y: height / 2 + fontSize / 2,
+      text: moreLabel,
+      anchor: 'start',
+    });
+
+    return {
+      width: scaleStart + scaleLength + LABEL_GAP + moreWidth,
+      height,
+      swatches,
+      labels,
+    };
+  }
+
+  const width = Math.max(swatchSize, lessWidth, moreWidth);
+  const swatchX = (width - swatchSize) / 2;
+  const scaleStart = fontSize + LABEL_GAP;
+
+  labels.push({ x: width / 2, y: fontSize, text: lessLabel, anchor: 'middle' });
+  steps.forEach((step, index) => {
+    swatches.push({
+      x: swatchX,
+      y: scaleStart + index * (swatchSize + swatchSpacing),
+      color: step.color,
+    });
+  });
+  labels.push({
+    x: width / 2,
+    y: scaleStart + scaleLength + LABEL_GAP + fontSize,
+    text: moreLabel,
+    anchor: 'middle',
+  });
+
+  return {
+    width,
+    height: scaleStart + scaleLength + LABEL_GAP + fontSize,
+    swatches,
+    labels,
+  };
+}
+
+/**
+ * Legend component
+ */
+const Legend: React.FC<LegendProps> = ({
+  layout,
+  swatchSize,
+  x,
+  y,
+  theme,
+  borderColor,
+  labelStyle,
+}) => (
+  <G x={x} y={y}>
+    {layout.swatches.map((swatch, index) => (
+      <Rect
+        key={`legend-swatch-${index}`}
+        x={swatch.x}
+        y={swatch.y}
+        width={swatchSize}
+        height={swatchSize}
+        fill={swatch.color}
+        stroke={borderColor ?? theme.colors.border}
+        strokeWidth={0.5}
+      />
+    ))}
+    {layout.labels.map((label, index) => (
+      <SvgText
+        key={`legend-label-${index}`}
+        x={label.x}
+        y={label.y}
+        fontSize={theme.typography.fontSize}
+        fontFamily={theme.typography.fontFamily}
+        fontWeight={theme.typography.fontWeight}
+        fill={theme.colors.text}
+        textAnchor={label.anchor}
+        {...labelStyle}
+      >
+        {label.text}
+      </SvgText>
+    ))}
+  </G>
+);
+
+export default Legend;
@@ -3,13 +3,25 @@
  * Provides configurable tooltips with custom positioning
  */
 
-import React, { useMemo } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import { View, Text, StyleSheet } from 'react-native';
-import type { HeatmapData, TooltipConfig, Theme } from '../types';
+import type {
+  LayoutDirection,
+  LegendStep,
+  ProcessedCellData,
+  TooltipConfig,
+  TooltipStrings,
+  Theme,
+} from '../types';
+import {
+  DEFAULT_TOOLTIP_STRINGS,
+  formatValueLabel,
+  formatDateKeyLong,
+} from '../utils';
 
 interface TooltipProps {
   /** The data for the cell being hovered */
-  data: HeatmapData;
+  data: ProcessedCellData;
   /** Position of the cell */
   cellPosition: { x: number; y: number };
   /** Cell size */
@@ -22,47 +34,108 @@ interface TooltipProps {
   containerDimensions: { width: number; height: number };
   /** Whether tooltip is visible */
   visible: boolean;
+  /** Color scale steps, matching the legend */
+  steps?: LegendStep[];
+  /** Locale for the default date and value formatting */
+  locale?: string;
+  /** Layout direction; right-to-left prefers placing the tooltip on the left */
+  direction?: LayoutDirection;
 }
 
 // Note: screenWidth and screenHeight available if needed for future features
 // const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
+/**
+ * Size of the tooltip arrow
+ */
+const ARROW_SIZE = 6;
+
+/**
+ * Size assumed for the tooltip until its content has been measured
+ */
+const ESTIMATED_TOOLTIP_SIZE = { width: 120, height: 60 };
+
+/**
+ * Find the color scale step a cell falls into, using its scaled value
+ */
+function findCellStep(
+  data: ProcessedCellData,
+  steps?: LegendStep[]
+): LegendStep | undefined {
+  if (!steps || steps.length === 0 || data.isEmpty) {
+    return undefined;
+  }
+  return steps[Math.round(data.normalizedValue * (steps.length - 1))];
+}
+
 /**
  * Default tooltip renderer
  */
-const DefaultTooltipContent: React.FC<{ data: HeatmapData; theme: Theme }> = ({
-  data,
-  theme,
-}) => (
-  <View
-    style={[styles.defaultContent, { backgroundColor: theme.colors.tooltip }]}
-  >
-    <Text style={[styles.defaultText, { color: theme.colors.tooltipText }]}>
-      {data.date}
-    </Text>
-    <Text style={[styles.defaultText, { color: theme.colors.tooltipText }]}>
-      Value: {data.value}
-    </Text>
-  </View>
-);
+const DefaultTooltipContent: React.FC<{
+  data: ProcessedCellData;
+  theme: Theme;
+  steps?: LegendStep[];
+  locale: string;
+  strings?: TooltipStrings;
+}> = ({ data, theme, steps, locale, strings }) => {
+  const step = findCellStep(data, steps);
+  const text = { ...DEFAULT_TOOLTIP_STRINGS, ...strings };
+
+  return (
+    <View
+      style={[styles.defaultContent, { backgroundColor: theme.colors.tooltip }]}
+    >
+      <Text style={[styles.defaultText, { color: theme.colors.tooltipText }]}>
+        {formatDateKeyLong(data.date, locale)}
+      </Text>
+      <Text style={[styles.defaultText, { color: theme.colors.tooltipText }]}>
+        {text.value(formatValueLabel(data.value, locale))}
+      </Text>
+      {step && (
+        <Text style={[styles.defaultText, { color: theme.colors.tooltipText }]}>
+          {text.range(
+            formatValueLabel(step.min, locale),
+            formatValueLabel(step.max, locale)
+          )}
+        </Text>
+      )}
+    </View>
+  );
+};
 
 /**
- * Calculate tooltip position to avoid screen edges
+ * Calculate tooltip position to avoid screen edges. arrowOffset is the
+ * distance along the edge facing the cell from the tooltip's corner to the
+ * cell center, kept clear of the rounded corners
  */
-function calculateTooltipPosition(
+export function calculateTooltipPosition(
   cellPosition: { x: number; y: number },
   cellSize: number,
   tooltipSize: { width: number; height: number },
   containerDimensions: { width: number; height: number },
   preferredPosition: TooltipConfig['position'],
-  offset: number
-): { x: number; y: number; position: string } {
+  offset: number,
+  direction: LayoutDirection = 'ltr'
+): { x: number; y: number; position: string; arrowOffset: number } {
   const cellCenterX = cellPosition.x + cellSize / 2;
   const cellCenterY = cellPosition.y + cellSize / 2;
 
   const tooltipWidth = tooltipSize.width;
   const tooltipHeight = tooltipSize.height;
 
+  const withArrow = (pos: { x: number; y: number; position: string }) => {
+    const vertical = pos.position === 'top' || pos.position === 'bottom';
+    const edge = vertical ? tooltipWidth : tooltipHeight;
+    const center = vertical ? cellCenterX - pos.x : cellCenterY - pos.y;
+    return {
+      ...pos,
+      arrowOffset: Math.max(
+        Math.min(center, edge - ARROW_SIZE * 2),
+        Math.min(ARROW_SIZE * 2, edge / 2)
+      ),
+    };
+  };
+
   // Calculate positions for each direction
   const positions = {
     top: {
@@ -96,12 +169,15 @@ function calculateTooltipPosition(
       pos.x + tooltipWidth <= containerDimensions.width &&
       pos.y + tooltipHeight <= containerDimensions.height
     ) {
-      return pos;
+      return withArrow(pos);
     }
   }
 
-  // Auto-position: find the best fit
-  const positionOrder = ['top', 'bottom', 'right', 'left'] as const;
+  // Auto-position: find the best fit, trying the reading direction first
+  const positionOrder =
+    direction === 'rtl'
+      ? (['top', 'bottom', 'left', 'right'] as const)
+      : (['top', 'bottom', 'right', 'left'] as const);
 
   for (const posKey of positionOrder) {
     const pos = positions[posKey];
@@ -111,13 +187,13 @@ function calculateTooltipPosition(
       pos.x + tooltipWidth <= containerDimensions.width &&
       pos.y + tooltipHeight <= containerDimensions.height
     ) {
-      return pos;
+      return withArrow(pos);
     }
   }
 
   // If no position fits perfectly, use top and clamp to screen
   const fallbackPos = positions.top;
-  return {
+  return withArrow({
     x: Math.max(
       0,
       Math.min(fallbackPos.x, containerDimensions.width - tooltipWidth)
@@ -127,7 +203,7 @@ function calculateTooltipPosition(
       Math.min(fallbackPos.y, containerDimensions.height - tooltipHeight)
     ),
     position: 'top',
-  };
+  });
 }
 
 /**
@@ -141,6 +217,9 @@ const Tooltip: React.FC<TooltipProps> = ({
   theme,
   containerDimensions,
   visible,
+  steps,
+  locale = 'en-US',
+  direction = 'ltr',
 }) => {
   const tooltipStyle = useMemo(() => {
     const baseStyle = {
@@ -161,24 +240,39 @@ const Tooltip: React.FC<TooltipProps> = ({
     return baseStyle;
   }, [config, theme]);
 
-  const position = useMemo(() => {
-    // Estimate tooltip size (this is approximate)
-    const estimatedSize = { width: 120, height: 60 };
+  // Measured size of the tooltip; positioned from an estimate until then
+  const [measuredSize, setMeasuredSize] = useState<{
+    width: number;
+    height: number;
+  } | null>(null);
+
+  const handleLayout = useCallback((event: any) => {
+    const { width, height } = event.nativeEvent.layout;
+    setMeasuredSize((previous) =>
+      previous && previous.width === width && previous.height === height
+        ? previous
+        : { width, height }
+    );
+  }, []);
 
+  const position = useMemo(() => {
     return calculateTooltipPosition(
       cellPosition,
       cellSize,
-      estimatedSize,
+      measuredSize ?? ESTIMATED_TOOLTIP_SIZE,
       containerDimensions,
       config.position,
-      config.offset || 8
+      config.offset || 8,
+      direction
     );
   }, [
     cellPosition,
     cellSize,
+    measuredSize,
     containerDimensions,
     config.position,
     config.offset,
+    direction,
   ]);
 
   if (!visible) {
@@ -194,24 +288,34 @@ const Tooltip: React.FC<TooltipProps> = ({
           left: position.x,
           top: position.y,
           zIndex: 1000,
+          // Hidden until measured, so it never shows at the estimated spot
+          opacity: measuredSize ? 1 : 0,
         },
       ]}
       pointerEvents="none"
+      onLayout={handleLayout}
     >
       {config.content ? (
         config.content(data)
       ) : (
-        <DefaultTooltipContent data={data} theme={theme} />
+        <DefaultTooltipContent
+          data={data}
+          theme={theme}
+          steps={steps}
+          locale={locale}
+          strings={config.strings}
+        />
       )}
 
       {config.showArrow && (
         <View
           style={[
             styles.arrow,
-            getArrowStyle(position.position),
-            {
-              backgroundColor: config.backgroundColor || theme.colors.tooltip,
-            },
+            getArrowStyle(
+              position.position,
+              position.arrowOffset,
+              config.backgroundColor || theme.colors.tooltip
+            ),
           ]}
         />
       )}
@@ -220,58 +324,61 @@ const Tooltip: React.FC<TooltipProps> = ({
 };
 
 /**
- * Get arrow style based on tooltip position
+ * Get arrow style based on tooltip position; the arrow is a border triangle
+ * centered arrowOffset along the edge facing the cell
  */
-function getArrowStyle(position: string): any {
-  const arrowSize = 6;
-
+function getArrowStyle(
+  position: string,
+  arrowOffset: number,
+  color: string
+): any {
   switch (position) {
     case 'top':
       return {
-        bottom: -arrowSize,
-        left: '50%',
-        marginLeft: -arrowSize / 2,
-        borderLeftWidth: arrowSize,
-        borderRightWidth: arrowSize,
-        borderTopWidth: arrowSize,
+        bottom: -ARROW_SIZE,
+        left: arrowOffset - ARROW_SIZE,
+        borderLeftWidth: ARROW_SIZE,
+        borderRightWidth: ARROW_SIZE,
+        borderTopWidth: ARROW_SIZE,
         borderLeftColor: 'transparent',
         borderRightColor: 'transparent',
+        borderTopColor: color,
       };
 
     case 'bottom':
       return {
-        top: -arrowSize,
-        left: '50%',
-        marginLeft: -arrowSize / 2,
-        borderLeftWidth: arrowSize,
-        borderRightWidth: arrowSize,
-        borderBottomWidth: arrowSize,
+        top: -ARROW_SIZE,
+        left: arrowOffset - ARROW_SIZE,
+        borderLeftWidth: ARROW_SIZE,
+        borderRightWidth: ARROW_SIZE,
+        borderBottomWidth: ARROW_SIZE,
         borderLeftColor: 'transparent',
         borderRightColor: 'transparent',
+        borderBottomColor: color,
       };
 
     case 'left':
       return {
-        right: -arrowSize,
-        top: '50%',
-        marginTop: -arrowSize / 2,
-        borderTopWidth: arrowSize,
-        borderBottomWidth: arrowSize,
-        borderLeftWidth: arrowSize,
+        right: -ARROW_SIZE,
+        top: arrowOffset - ARROW_SIZE,
+        borderTopWidth: ARROW_SIZE,
+        borderBottomWidth: ARROW_SIZE,
+        borderLeftWidth: ARROW_SIZE,
         borderTopColor: 'transparent',
         borderBottomColor: 'transparent',
+        borderLeftColor: color,
       };
 
     case 'right':
       return {
-        left: -arrowSize,
-        top: '50%',
-        marginTop: -arrowSize / 2,
-        borderTopWidth: arrowSize,
-        borderBottomWidth: arrowSize,
-        borderRightWidth: arrowSize,
+        left: -ARROW_SIZE,
+        top: arrowOffset - ARROW_SIZE,
+        borderTopWidth: ARROW_SIZE,
+        borderBottomWidth: ARROW_SIZE,
+        borderRightWidth: ARROW_SIZE,
         borderTopColor: 'transparent',
         borderBottomColor: 'transparent',
+        borderRightColor: color,
       };
 
     default:
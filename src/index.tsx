@@ -5,21 +5,50 @@ export { default as Heatmap } from './components/Heatmap';
 export { default as Tooltip } from './components/Tooltip';
 export { default as AnimatedCell } from './components/AnimatedCell';
 export { default as CardLayout } from './components/CardLayout';
+export { default as Legend } from './components/Legend';
 
 // Export types
 export type {
   HeatmapProps,
+  HeatmapRef,
+  HeatmapScrollOptions,
   HeatmapData,
   ColorScheme,
   Theme,
   AccessibilityProps,
+  HeatmapSummary,
+  AccessibilityStrings,
   AnimationConfig,
+  AnimationEasing,
+  TransitionConfig,
+  StaggerOrder,
+  HighlightAnimation,
+  HighlightConfig,
   TooltipConfig,
+  TooltipTrigger,
+  TooltipStrings,
   GestureConfig,
+  GestureTransform,
+  ScrollOffset,
+  LegendConfig,
+  LegendStep,
+  ValueScale,
+  ValueDomain,
+  ProcessDataOptions,
+  AggregateFunction,
+  AggregatedHeatmapData,
+  WeekStartsOn,
+  WeekNumbering,
+  WeekOptions,
+  AxisLabelContext,
+  AxisLabelFormatter,
   ProcessedCellData,
   CalendarLayoutData,
   LayoutType,
   CellShape,
+  LayoutDirection,
+  SelectionMode,
+  CalendarOrientation,
   // Time-based layout types
   DailyLayoutData,
   WeeklyLayoutData,
@@ -50,11 +79,31 @@ export {
   generateDateRange,
   formatDateISO,
   parseISODate,
+  getWeekNumber,
+  formatValueLabel,
+  formatCellAccessibilityLabel,
+  calculateHeatmapSummary,
+  formatHeatmapSummary,
+  DEFAULT_ACCESSIBILITY_STRINGS,
+  DEFAULT_TOOLTIP_STRINGS,
+  formatDateKeyLong,
+  formatWeekdayLabel,
+  formatHourLabel,
+  toDateKey,
+  toHourKey,
   processHeatmapData,
+  aggregateHeatmapData,
   calculateCalendarLayout,
   calculateGridDimensions,
   calculateHeatmapDimensions,
+  getColumnOffset,
   resolveColorScheme,
+  calculateValueRange,
+  calculateValueDomain,
+  resolveValueScale,
+  normalizeValue,
+  denormalizeValue,
+  calculateLegendSteps,
   // Time-based layout utilities
   calculateDailyLayout,
   calculateWeeklyLayout,
@@ -63,4 +112,5 @@ export {
   calculateCustomRangeLayout,
   calculateTimelineScrollLayout,
   calculateRealTimeLayout,
+  getLiveDates,
 } from './utils';
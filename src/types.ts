@@ -9,14 +9,35 @@ import type { ViewStyle, TextStyle } from 'react-native';
  * Base data structure for heatmap cells
  */
 export interface HeatmapData {
-  /** ISO date string (YYYY-MM-DD) */
-  date: string;
+  /** ISO date (YYYY-MM-DD), ISO datetime string or epoch milliseconds */
+  date: string | number;
   /** Numeric value for the heatmap cell */
   value: number;
   /** Optional metadata for additional information */
   metadata?: Record<string, any>;
 }
 
+/**
+ * Reducer used to collapse entries that share a cell
+ */
+export type AggregateFunction =
+  | 'sum'
+  | 'count'
+  | 'mean'
+  | 'max'
+  | 'min'
+  | ((values: number[], entries: HeatmapData[]) => number);
+
+/**
+ * Heatmap data collapsed per cell, with the entries it was built from
+ */
+export interface AggregatedHeatmapData extends HeatmapData {
+  /** Bucket key (YYYY-MM-DD, or YYYY-MM-DDTHH:00:00 for hourly buckets) */
+  date: string;
+  /** Source entries that were aggregated into this cell */
+  entries: HeatmapData[];
+}
+
 /**
  * Color scheme configuration for heatmap visualization
  */
@@ -33,6 +54,67 @@ export interface ColorScheme {
   emptyColor?: string;
 }
 
+/**
+ * Scale used to map values onto the 0-1 color range
+ */
+export type ValueScale =
+  | 'linear'
+  | 'exponential'
+  | 'logarithmic'
+  | 'sqrt'
+  | 'quantile';
+
+/**
+ * First day of the week (0 = Sunday, 1 = Monday, ... 6 = Saturday)
+ */
+export type WeekStartsOn = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * Week numbering system: ISO-8601 (Monday weeks, week 1 contains the first
+ * Thursday) or US (week 1 contains 1 January)
+ */
+export type WeekNumbering = 'iso' | 'us';
+
+/**
+ * Week configuration shared by calendar layouts and labels
+ */
+export interface WeekOptions {
+  /** First day of the week (defaults to 0, Sunday) */
+  weekStartsOn?: WeekStartsOn;
+  /** Week numbering system (defaults to 'us') */
+  weekNumbering?: WeekNumbering;
+}
+
+/**
+ * Value domain used for normalization
+ */
+export interface ValueDomain {
+  /** Minimum value */
+  min: number;
+  /** Maximum value */
+  max: number;
+  /** Scale applied between min and max */
+  scale: ValueScale;
+  /** Ascending data values (used by the quantile scale) */
+  sortedValues: number[];
+}
+
+/**
+ * Options for processing raw heatmap data
+ */
+export interface ProcessDataOptions extends WeekOptions {
+  /** Value scale (defaults to the color scheme interpolation) */
+  scale?: ValueScale;
+  /** Reducer for entries sharing a cell (defaults to 'sum') */
+  aggregate?: AggregateFunction;
+  /** Bucket size for cells (defaults to 'day') */
+  granularity?: 'day' | 'hour';
+  /** IANA time zone used to bucket timestamps (defaults to device time) */
+  timeZone?: string;
+  /** Calendar orientation (defaults to 'horizontal') */
+  orientation?: CalendarOrientation;
+}
+
 /**
  * Theme configuration for overall appearance
  */
@@ -49,6 +131,12 @@ export interface Theme {
     tooltip: string;
     /** Tooltip text */
     tooltipText: string;
+    /** Outline of selected cells */
+    selection?: string;
+    /** Ring around the keyboard-focused cell */
+    focus?: string;
+    /** Glow and flash of highlighted cells */
+    highlight?: string;
   };
   /** Spacing configuration */
   spacing: {
@@ -86,8 +174,121 @@ export interface AccessibilityProps {
     disabled?: boolean;
     expanded?: boolean;
   };
+  /** Expose each cell in the viewport to screen readers (default true) */
+  cells?: boolean;
+  /** Screen reader label for a cell (default "March 3, 2025: 7") */
+  cellLabel?: (cell: ProcessedCellData) => string;
+  /** Translated screen reader text */
+  strings?: AccessibilityStrings;
+  /** Replace the summary read after the heatmap's name */
+  formatSummary?: (summary: HeatmapSummary, locale: string) => string;
+}
+
+/**
+ * Screen reader text, English by default. Values and dates are passed in
+ * already formatted for the locale
+ */
+export interface AccessibilityStrings {
+  /** Name read before the summary (default 'Heatmap visualization') */
+  heatmap?: string;
+  /** Summary of a heatmap without dated cells (default 'No data') */
+  noData?: string;
+  /** Default 'Total: {total}' */
+  total?: (total: string) => string;
+  /** Default 'Highest: {value} on {date}' */
+  highest?: (value: string, date: string) => string;
+  /** Default 'Longest streak: {days} days' */
+  longestStreak?: (days: number) => string;
+  /** Default 'Busiest weekday: {weekday}' */
+  busiestWeekday?: (weekday: string) => string;
+  /** Cell actions (default 'Next day', 'Previous day', 'Next week', 'Previous week') */
+  nextDay?: string;
+  previousDay?: string;
+  nextWeek?: string;
+  previousWeek?: string;
+}
+
+/**
+ * Figures that describe a heatmap to screen readers; hourly cells are
+ * summed into days
+ */
+export interface HeatmapSummary {
+  /** First day covered (YYYY-MM-DD), null without dated cells */
+  start: string | null;
+  /** Last day covered (YYYY-MM-DD), null without dated cells */
+  end: string | null;
+  /** Sum of all values */
+  total: number;
+  /** Day with the highest total above zero */
+  maxDay: { date: string; value: number } | null;
+  /** Longest run of consecutive days with a value above zero */
+  longestStreak: { start: string; end: string; length: number } | null;
+  /** Weekday with the highest total (0 = Sunday) */
+  busiestWeekday: number | null;
+}
+
+/**
+ * Animation easing curve
+ */
+export type AnimationEasing =
+  | 'linear'
+  | 'ease'
+  | 'ease-in'
+  | 'ease-out'
+  | 'ease-in-out';
+
+/**
+ * Transitions played when data changes after the first render: colors tween
+ * to new values, and cells entering or leaving the date range fade in or out
+ */
+export interface TransitionConfig {
+  /** Enable transitions (default true) */
+  enabled?: boolean;
+  /** Duration in milliseconds (defaults to the animation duration) */
+  duration?: number;
+  /** Easing curve (defaults to the animation easing) */
+  easing?: AnimationEasing;
+}
+
+/**
+ * Effect a highlighted cell plays: a scale pulse, a glowing ring or a flash
+ * of color over the cell
+ */
+export type HighlightAnimation = 'pulse' | 'glow' | 'flash';
+
+/**
+ * Highlights draw attention to live cells, cells whose value changed and
+ * dates passed in highlightDates
+ */
+export interface HighlightConfig {
+  /** Enable highlights (default true) */
+  enabled?: boolean;
+  /** Effect played (default 'pulse') */
+  animation?: HighlightAnimation;
+  /** Duration of one play in milliseconds (default 600) */
+  duration?: number;
+  /** Ring and flash color (defaults to the theme's highlight color) */
+  color?: string;
+  /** Play once on cells whose value changed since the last render (default true) */
+  changes?: boolean;
+  /** Keep playing on cells the real-time layout flags as live (default true) */
+  live?: boolean;
 }
 
+/**
+ * Order cells play their entry animation in: by index, sweeping columns
+ * (weeks) left to right or rows top to bottom, radially out from
+ * staggerOrigin, from low to high value, or by a custom rank where lower
+ * ranks enter first
+ */
+export type StaggerOrder =
+  | 'index'
+  | 'column'
+  | 'row'
+  | 'radial'
+  | 'value'
+  | ((cell: ProcessedCellData) => number);
+
 /**
  * Animation configuration
  */
@@ -97,15 +298,38 @@ export interface AnimationConfig {
   /** Animation duration in milliseconds */
   duration: number;
   /** Animation easing function */
-  easing?: 'linear' | 'ease' | 'ease-in' | 'ease-out' | 'ease-in-out';
+  easing?: AnimationEasing;
   /** Stagger delay between cell animations */
   staggerDelay?: number;
+  /** Order cells enter in (default 'index') */
+  staggerOrder?: StaggerOrder;
+  /** Grid slot a 'radial' entry spreads out from (defaults to the center) */
+  staggerOrigin?: { column: number; row: number };
   /** Entry animation type */
   entryAnimation?: 'fade' | 'scale' | 'slide' | 'none';
   /** Use native driver for performance */
   useNativeDriver?: boolean;
+  /** Spring cells down while pressed */
+  pressFeedback?: boolean;
+  /** Drop entry animations and press springs under reduce motion (default true) */
+  respectReducedMotion?: boolean;
+  /** Transitions when data changes after the first render */
+  transition?: TransitionConfig;
+  /** Highlights of live, changed and highlightDates cells */
+  highlight?: HighlightConfig;
 }
 
+/**
+ * Interaction that opens a cell's tooltip; 'manual' leaves it to
+ * tooltip.visibleDate and the ref handle
+ */
+export type TooltipTrigger =
+  | 'press'
+  | 'longPress'
+  | 'hover'
+  | 'focus'
+  | 'manual';
+
 /**
  * Tooltip configuration
  */
@@ -113,7 +337,7 @@ export interface TooltipConfig {
   /** Enable/disable tooltips */
   enabled: boolean;
   /** Custom tooltip content renderer */
-  content?: (data: HeatmapData) => ReactNode;
+  content?: (data: ProcessedCellData) => ReactNode;
   /** Tooltip position */
   position?: 'top' | 'bottom' | 'left' | 'right' | 'auto';
   /** Tooltip offset from cell */
@@ -132,6 +356,79 @@ export interface TooltipConfig {
   borderRadius?: number;
   /** Tooltip shadow */
   shadow?: boolean;
+  /** Interaction that opens the tooltip (default 'longPress') */
+  trigger?: TooltipTrigger;
+  /** Date key of the cell whose tooltip is shown; null hides it (controlled) */
+  visibleDate?: string | null;
+  /** Hide the tooltip after this many milliseconds */
+  dismissAfter?: number;
+  /** Hide the tooltip when the heatmap is pressed outside it (default true) */
+  dismissOnOutsidePress?: boolean;
+  /** Translated text of the default content */
+  strings?: TooltipStrings;
+}
+
+/**
+ * Text of the default tooltip content, English by default. Values are
+ * passed in already formatted for the locale
+ */
+export interface TooltipStrings {
+  /** Default 'Value: {value}' */
+  value?: (value: string) => string;
+  /** Value range of the cell's legend step; default 'Range: {min}–{max}' */
+  range?: (min: string, max: string) => string;
+}
+
+/**
+ * Context passed to axis label formatters
+ */
+export interface AxisLabelContext {
+  /** What the label names */
+  type: 'month' | 'weekday' | 'day' | 'week' | 'hour' | 'period' | 'marker';
+  /** Position of the label along its axis (in cells) */
+  index: number;
+  /** Day or hour key the label refers to, when it names a date */
+  date?: string;
+  /** Locale the default label was formatted in */
+  locale: string;
+}
+
+/**
+ * Formatter overriding the default, locale-formatted text of an axis label
+ */
+export type AxisLabelFormatter = (
+  defaultLabel: string,
+  context: AxisLabelContext
+) => string;
+
+/**
+ * Legend configuration
+ */
+export interface LegendConfig {
+  /** Label mode: "Less … More" captions or a numeric tick per color step */
+  mode?: 'lessMore' | 'ticks';
+  /** Caption for the low end of the scale (lessMore mode) */
+  lessLabel?: string;
+  /** Caption for the high end of the scale (lessMore mode) */
+  moreLabel?: string;
+  /** Size of each legend swatch (defaults to cellSize) */
+  swatchSize?: number;
+  /** Custom tick label formatter (ticks mode) */
+  formatValue?: (value: number) => string;
+}
+
+/**
+ * A single color step of the legend with the value range it covers
+ */
+export interface LegendStep {
+  /** Color of the step */
+  color: string;
+  /** Value at which the step color is reached exactly */
+  value: number;
+  /** Lower bound of the values rendered closest to this color */
+  min: number;
+  /** Upper bound of the values rendered closest to this color */
+  max: number;
 }
 
 /**
@@ -162,6 +459,10 @@ export interface GestureConfig {
   zoom?: boolean;
   /** Enable swipe gesture */
   swipe?: boolean;
+  /** Enable brushing: long-press then drag to select cells */
+  brush?: boolean;
+  /** Hold time before a drag brushes instead of panning (ms) */
+  brushActivationDelay?: number;
   /** Minimum zoom scale */
   minZoom?: number;
   /** Maximum zoom scale */
@@ -170,11 +471,53 @@ export interface GestureConfig {
   hapticFeedback?: boolean;
 }
 
+/**
+ * Pan and zoom applied to the heatmap content (origin at its top-left corner)
+ */
+export interface GestureTransform {
+  /** Horizontal offset in pixels */
+  translateX: number;
+  /** Vertical offset in pixels */
+  translateY: number;
+  /** Zoom scale */
+  scale: number;
+}
+
+/**
+ * Part of the heatmap shown by a parent ScrollView, in pixels from the
+ * heatmap's top-left corner
+ */
+export interface ScrollOffset {
+  /** Horizontal scroll past the heatmap's left edge */
+  x: number;
+  /** Vertical scroll past the heatmap's top edge */
+  y: number;
+  /** Visible width (defaults to the window width) */
+  width?: number;
+  /** Visible height (defaults to the window height) */
+  height?: number;
+}
+
 /**
  * Cell shape options
  */
 export type CellShape = 'square' | 'circle' | 'rounded' | 'custom';
 
+/**
+ * Calendar orientation: weeks as columns (horizontal) or as rows (vertical)
+ */
+export type CalendarOrientation = 'horizontal' | 'vertical';
+
+/**
+ * Horizontal layout direction
+ */
+export type LayoutDirection = 'ltr' | 'rtl';
+
+/**
+ * How pressing cells selects dates
+ */
+export type SelectionMode = 'none' | 'single' | 'multiple' | 'range';
+
 /**
  * Main props interface for the Heatmap component
  */
@@ -201,6 +544,8 @@ export interface HeatmapProps {
   layout?: LayoutType;
   /** Color scheme for visualization */
   colorScheme?: ColorScheme | string;
+  /** Value scale used for color mapping (defaults to colorScheme.interpolation) */
+  scale?: ValueScale;
   /** Theme configuration */
   theme?: Partial<Theme>;
   /** Time-based layout configuration */
@@ -213,18 +558,30 @@ export interface HeatmapProps {
   endDate?: Date;
   /** Number of days to display (alternative to end date) */
   numDays?: number;
+  /** How entries sharing a date are combined (defaults to 'sum') */
+  aggregate?: AggregateFunction;
 
   /** Interaction handlers */
   /** Called when a cell is pressed */
-  onCellPress?: (data: HeatmapData, index: number) => void;
+  onCellPress?: (data: ProcessedCellData, index: number) => void;
   /** Called when a cell is long pressed */
-  onCellLongPress?: (data: HeatmapData, index: number) => void;
+  onCellLongPress?: (data: ProcessedCellData, index: number) => void;
   /** Called when a cell is pressed in */
-  onCellPressIn?: (data: HeatmapData, index: number) => void;
+  onCellPressIn?: (data: ProcessedCellData, index: number) => void;
   /** Called when a cell is pressed out */
-  onCellPressOut?: (data: HeatmapData, index: number) => void;
+  onCellPressOut?: (data: ProcessedCellData, index: number) => void;
   /** Called when a cell is double pressed */
-  onCellDoublePress?: (data: HeatmapData, index: number) => void;
+  onCellDoublePress?: (data: ProcessedCellData, index: number) => void;
+  /** Called when a cell receives keyboard or TV focus */
+  onCellFocus?: (data: ProcessedCellData, index: number) => void;
+
+  /** Selection */
+  /** How pressing cells selects dates (defaults to 'none') */
+  selectionMode?: SelectionMode;
+  /** Selected date keys; omit to let the heatmap manage selection */
+  selectedDates?: string[];
+  /** Called with the new selected date keys when a press changes them */
+  onSelectionChange?: (selectedDates: string[]) => void;
 
   /** Tooltip configuration */
   /** Tooltip settings */
@@ -232,7 +589,9 @@ export interface HeatmapProps {
   /** Legacy: show tooltip (use tooltip.enabled instead) */
   showTooltip?: boolean;
   /** Legacy: tooltip content (use tooltip.content instead) */
-  tooltipContent?: (data: HeatmapData) => ReactNode;
+  tooltipContent?: (data: ProcessedCellData) => ReactNode;
+  /** Called with the date key of the cell whose tooltip opens, or null */
+  onTooltipChange?: (date: string | null) => void;
 
   /** Animation */
   /** Enable animations */
@@ -241,6 +600,8 @@ export interface HeatmapProps {
   animation?: Partial<AnimationConfig>;
   /** Legacy: animation duration (use animation.duration instead) */
   animationDuration?: number;
+  /** Date keys that play the highlight animation as they are added */
+  highlightDates?: string[];
 
   /** Gesture configuration */
   gesture?: Partial<GestureConfig>;
@@ -250,20 +611,46 @@ export interface HeatmapProps {
   zoomEnabled?: boolean;
   /** Enable haptic feedback */
   hapticFeedback?: boolean;
+  /** Called when pinch-zoom changes the scale */
+  onZoomChange?: (scale: number) => void;
+  /** Called when panning or zooming moves the content */
+  onPanChange?: (translation: { x: number; y: number }) => void;
+  /** Enable brushing: long-press then drag to select a block of cells */
+  brushEnabled?: boolean;
+  /** Called while brushing with the cells under the brush */
+  onBrushChange?: (cells: ProcessedCellData[]) => void;
+  /** Called when a brush is released with the cells it covers */
+  onBrushEnd?: (cells: ProcessedCellData[]) => void;
 
   /** Accessibility */
   /** Accessibility configuration */
   accessibility?: AccessibilityProps;
+  /** 'table' adds a hidden, screen reader list of the values grouped by month */
+  accessibleFallback?: 'none' | 'table';
 
   /** Advanced configuration */
   /** Show month labels (calendar layout) */
   showMonthLabels?: boolean;
   /** Show weekday labels (calendar layout) */
   showWeekdayLabels?: boolean;
+  /** BCP 47 locale for labels, tooltips and accessibility text */
+  locale?: string;
+  /** Layout direction; 'rtl' mirrors columns (defaults to I18nManager.isRTL) */
+  direction?: LayoutDirection;
+  /** Calendar orientation; 'vertical' lays weeks out as rows */
+  orientation?: CalendarOrientation;
+  /** Override labels along the x axis (months, hours, days, periods;
+   * weekdays in the vertical calendar) */
+  formatXLabel?: AxisLabelFormatter;
+  /** Override labels along the y axis (weekdays, weeks; months in the
+   * vertical calendar) */
+  formatYLabel?: AxisLabelFormatter;
   /** Show legend */
   showLegend?: boolean;
   /** Legend position */
   legendPosition?: 'top' | 'bottom' | 'left' | 'right';
+  /** Legend configuration */
+  legend?: LegendConfig;
 
   /** Grid configuration (for grid layout) */
   /** Number of columns (grid layout) */
@@ -276,6 +663,10 @@ export interface HeatmapProps {
   targetDate?: Date;
   /** Time zone for time-based layouts */
   timeZone?: string;
+  /** First day of the week (0 = Sunday, 1 = Monday, ... 6 = Saturday) */
+  weekStartsOn?: WeekStartsOn;
+  /** Week numbering used by week labels */
+  weekNumbering?: WeekNumbering;
   /** Hour format for daily layouts */
   hourFormat?: '12h' | '24h';
   /** Show time labels */
@@ -296,6 +687,8 @@ export interface HeatmapProps {
   virtualized?: boolean;
   /** Render buffer size for virtualization */
   renderBuffer?: number;
+  /** Visible part of the heatmap when it scrolls inside a parent ScrollView */
+  scrollOffset?: ScrollOffset;
 
   /** Style overrides */
   /** Custom styles for the container */
@@ -306,10 +699,42 @@ export interface HeatmapProps {
   labelStyle?: any;
 }
 
+/**
+ * Options for imperative pan and zoom changes
+ */
+export interface HeatmapScrollOptions {
+  /** Tween to the new position over the animation duration (default true) */
+  animated?: boolean;
+}
+
+/**
+ * Imperative handle exposed through the Heatmap ref
+ */
+export interface HeatmapRef {
+  /** Pan so the cell for a date (or date key) is centered in the viewport */
+  scrollToDate: (date: Date | string, options?: HeatmapScrollOptions) => void;
+  /** Zoom around the center of the viewport, within the configured limits */
+  zoomTo: (scale: number, options?: HeatmapScrollOptions) => void;
+  /** Return to the unpanned, unzoomed view */
+  resetZoom: (options?: HeatmapScrollOptions) => void;
+  /** Show the tooltip for the cell of a date (or date key) */
+  showTooltip: (date: Date | string) => void;
+  /** Hide the tooltip */
+  hideTooltip: () => void;
+  /** Get the cell under a point in the heatmap's own coordinates */
+  getCellAt: (x: number, y: number) => ProcessedCellData | null;
+  /** Get the first and last date keys of the cells in the viewport */
+  getVisibleDateRange: () => { start: string; end: string } | null;
+  /** Deselect every date and cancel a range selection in progress */
+  clearSelection: () => void;
+}
+
 /**
  * Internal cell data with calculated properties
  */
 export interface ProcessedCellData extends HeatmapData {
+  /** Bucket key (YYYY-MM-DD, or YYYY-MM-DDTHH:00:00 for hourly cells) */
+  date: string;
   /** X position in the grid */
   x: number;
   /** Y position in the grid */
@@ -320,6 +745,8 @@ export interface ProcessedCellData extends HeatmapData {
   isEmpty: boolean;
   /** Normalized value (0-1) for color calculation */
   normalizedValue: number;
+  /** Source entries aggregated into this cell */
+  entries?: HeatmapData[];
   /** Week of year (for calendar layout) */
   week?: number;
   /** Day of week (0-6, for calendar layout) */
@@ -337,6 +764,9 @@ export interface CalendarLayoutData {
   /** Month boundaries */
   monthBoundaries: Array<{
     month: string;
+    /** First day key covered by the label */
+    date: string;
+    /** First week covered (a row in vertical calendars) */
     x: number;
     width: number;
   }>;
@@ -405,6 +835,8 @@ export interface MonthlyLayoutData {
   /** Week boundaries */
   weekBoundaries: Array<{
     week: number;
+    /** Week of year of the row, in the configured numbering */
+    weekNumber: number;
     x: number;
     width: number;
   }>;
@@ -421,6 +853,8 @@ export interface YearlyLayoutData {
   /** Month boundaries */
   monthBoundaries: Array<{
     month: string;
+    /** First day key covered by the label */
+    date: string;
     x: number;
     width: number;
   }>;
@@ -826,6 +1260,9 @@ export const DEFAULT_THEME: Theme = {
     border: '#e1e4e8',
     tooltip: '#1b1f23',
     tooltipText: '#ffffff',
+    selection: '#0969da',
+    focus: '#bf8700',
+    highlight: '#fb8500',
   },
   spacing: {
     cell: 2,
@@ -849,6 +1286,9 @@ export const DARK_THEME: Theme = {
     border: '#30363d',
     tooltip: '#f0f6fc',
     tooltipText: '#0d1117',
+    selection: '#58a6ff',
+    focus: '#d29922',
+    highlight: '#f0883e',
   },
   spacing: {
     cell: 2,
@@ -3,7 +3,15 @@
  * Provides smooth entry animations and transitions
  */
 
-import type { AnimationConfig } from '../types';
+import { Animated, Easing } from 'react-native';
+import type {
+  AnimationConfig,
+  AnimationEasing,
+  HighlightConfig,
+  ProcessedCellData,
+  StaggerOrder,
+  TransitionConfig,
+} from '../types';
 
 /**
  * Default animation configuration
@@ -15,6 +23,8 @@ export const DEFAULT_ANIMATION_CONFIG: AnimationConfig = {
   staggerDelay: 10,
   entryAnimation: 'fade',
   useNativeDriver: true,
+  pressFeedback: true,
+  respectReducedMotion: true,
 };
 
 /**
@@ -28,6 +38,54 @@ export const ANIMATION_EASING = {
   'ease-in-out': 'ease-in-out',
 } as const;
 
+/**
+ * Easing curves for Animated timings
+ */
+export const EASING_FUNCTIONS: Record<AnimationEasing, (t: number) => number> =
+  {
+    'linear': Easing.linear,
+    'ease': Easing.ease,
+    'ease-in': Easing.in(Easing.ease),
+    'ease-out': Easing.out(Easing.ease),
+    'ease-in-out': Easing.inOut(Easing.ease),
+  };
+
+/**
+ * Resolve the transitions played when data changes, falling back to the
+ * animation's own duration and easing
+ */
+export function resolveTransitionConfig(
+  config: AnimationConfig
+): Required<TransitionConfig> {
+  const { transition = {} } = config;
+
+  return {
+    enabled: config.enabled && transition.enabled !== false,
+    duration: transition.duration ?? config.duration,
+    easing: transition.easing ?? config.easing ?? 'ease-out',
+  };
+}
+
+/**
+ * Resolve highlights, falling back to the given color; highlights only play
+ * on animated cells
+ */
+export function resolveHighlightConfig(
+  config: AnimationConfig,
+  defaultColor: string
+): Required<HighlightConfig> {
+  const { highlight = {} } = config;
+
+  return {
+    enabled: config.enabled && highlight.enabled !== false,
+    animation: highlight.animation ?? 'pulse',
+    duration: highlight.duration ?? 600,
+    color: highlight.color ?? defaultColor,
+    changes: highlight.changes ?? true,
+    live: highlight.live ?? true,
+  };
+}
+
 /**
  * Calculate staggered delay for cell animations
  */
@@ -82,6 +140,57 @@ export function getEntryAnimationStyle(
   }
 }
 
+/**
+ * Animated number: a plain value or one driven by an Animated node
+ */
+export type AnimatedNumber =
+  | number
+  | Animated.Value
+  | Animated.AnimatedInterpolation<number>;
+
+/**
+ * Opacity, scale and vertical offset of an entry animation driven by an
+ * Animated 0-1 progress value; the animated counterpart of
+ * getEntryAnimationStyle, usable as view styles or SVG props
+ */
+export function getAnimatedEntryValues(
+  entryAnimation: AnimationConfig['entryAnimation'],
+  progress: Animated.Value
+): {
+  opacity: AnimatedNumber;
+  scale: AnimatedNumber;
+  translateY: AnimatedNumber;
+} {
+  switch (entryAnimation) {
+    case 'fade':
+      return { opacity: progress, scale: 1, translateY: 0 };
+
+    case 'scale':
+      return {
+        opacity: progress,
+        scale: progress.interpolate({
+          inputRange: [0, 1],
+          outputRange: [0.3, 1],
+        }),
+        translateY: 0,
+      };
+
+    case 'slide':
+      return {
+        opacity: progress,
+        scale: 1,
+        translateY: progress.interpolate({
+          inputRange: [0, 1],
+          outputRange: [20, 0],
+        }),
+      };
+
+    case 'none':
+    default:
+      return { opacity: 1, scale: 1, translateY: 0 };
+  }
+}
+
 /**
  * Create animation sequence for multiple cells
  */
@@ -103,16 +212,121 @@ export function createCellAnimationSequence(
 }
 
 /**
- * Merge animation configurations
+ * Longest spread between the first and last cell starting their entry
+ */
+export const MAX_STAGGER_SPREAD = 500;
+
+/**
+ * Rank a cell by the stagger order; lower ranks enter first
+ */
+function getStaggerRank(
+  cell: ProcessedCellData,
+  index: number,
+  order: StaggerOrder,
+  origin: { column: number; row: number }
+): number {
+  if (typeof order === 'function') {
+    return order(cell);
+  }
+
+  switch (order) {
+    case 'column':
+      return cell.x;
+    case 'row':
+      return cell.y;
+    case 'radial':
+      return Math.hypot(cell.x - origin.column, cell.y - origin.row);
+    case 'value':
+      return cell.value;
+    case 'index':
+    default:
+      return index;
+  }
+}
+
+/**
+ * Delay and duration of each cell's entry animation, choreographed by
+ * staggerOrder. Cells with the same rank enter together, successive ranks
+ * enter staggerDelay apart up to MAX_STAGGER_SPREAD, and durations shrink for
+ * large grids through getOptimalAnimationDuration
+ */
+export function createStaggerSchedule(
+  cells: ProcessedCellData[],
+  config: AnimationConfig
+): Array<{ delay: number; duration: number }> {
+  const {
+    staggerDelay = 0,
+    staggerOrder = 'index',
+    entryAnimation = 'fade',
+  } = config;
+  const duration = getOptimalAnimationDuration(cells.length, config.duration);
+
+  if (entryAnimation === 'none' || staggerDelay === 0 || cells.length === 0) {
+    return cells.map(() => ({ delay: 0, duration }));
+  }
+
+  // Radial entries spread from the center of the grid by default
+  let origin = config.staggerOrigin;
+  if (!origin && staggerOrder === 'radial') {
+    const columns = cells.map((cell) => cell.x);
+    const rows = cells.map((cell) => cell.y);
+    origin = {
+      column: (Math.min(...columns) + Math.max(...columns)) / 2,
+      row: (Math.min(...rows) + Math.max(...rows)) / 2,
+    };
+  }
+
+  const ranks = cells.map((cell, index) => {
+    const rank = getStaggerRank(
+      cell,
+      index,
+      staggerOrder,
+      origin ?? { column: 0, row: 0 }
+    );
+    return Number.isFinite(rank) ? rank : 0;
+  });
+  // Delays follow each rank's position in order, not its value, so skewed
+  // values such as one outlier do not bunch the other cells together
+  const orderedRanks = [...new Set(ranks)].sort((a, b) => a - b);
+  const positions = new Map(orderedRanks.map((rank, index) => [rank, index]));
+  const steps = orderedRanks.length - 1;
+  const spread = Math.min(staggerDelay * steps, MAX_STAGGER_SPREAD);
+
+  return ranks.map((rank) => ({
+    delay: steps > 0 ? ((positions.get(rank) ?? 0) / steps) * spread : 0,
+    duration,
+  }));
+}
+
+/**
+ * Merge animation configurations; with the OS reduce motion setting on,
+ * entry animations and press springs are dropped and highlight pulses glow
+ * instead, unless respectReducedMotion is false
  */
 export function mergeAnimationConfig(
   defaultConfig: AnimationConfig,
-  userConfig?: Partial<AnimationConfig>
+  userConfig?: Partial<AnimationConfig>,
+  reduceMotion: boolean = false
 ): AnimationConfig {
-  return {
+  const config = {
     ...defaultConfig,
     ...userConfig,
   };
+
+  if (reduceMotion && config.respectReducedMotion !== false) {
+    return {
+      ...config,
+      entryAnimation: 'none',
+      staggerDelay: 0,
+      pressFeedback: false,
+      highlight:
+        config.highlight?.animation === 'flash'
+          ? config.highlight
+          : { ...config.highlight, animation: 'glow' },
+    };
+  }
+
+  return config;
 }
 
 /**
@@ -0,0 +1,458 @@
+/**
+ * Date utilities for React Native Heatmap
+ * Time-zone-aware date engine shared by every layout
+ *
+ * Instants (Date objects, ISO datetimes, epoch milliseconds) are converted to
+ * calendar day keys (YYYY-MM-DD) in an IANA time zone once; all layout
+ * arithmetic then runs on day keys, so DST transitions never shift a cell.
+ * ISO datetimes without an offset (2024-03-10T01:30) are wall-clock times in
+ * that zone. Unknown time zones fall back to device time.
+ */
+
+import type { WeekNumbering, WeekStartsOn } from '../types';
+
+/**
+ * Calendar fields of an instant as seen in a time zone
+ */
+export interface ZonedDateParts {
+  /** Full year */
+  year: number;
+  /** Month (0-11) */
+  month: number;
+  /** Day of month (1-31) */
+  day: number;
+  /** Hour (0-23) */
+  hour: number;
+  /** Minute (0-59) */
+  minute: number;
+}
+
+/**
+ * Matches date-only strings (YYYY-MM-DD), which are already calendar days
+ */
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Matches ISO datetimes without a UTC offset, e.g. 2024-03-10T01:30
+ */
+const NAIVE_DATETIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(\.\d+)?)?$/;
+
+/**
+ * Cached Intl formatters, one per time zone; null for unknown zones
+ */
+const zonedFormatters = new Map<string, Intl.DateTimeFormat | null>();
+
+function getZonedFormatter(timeZone: string): Intl.DateTimeFormat | null {
+  if (!zonedFormatters.has(timeZone)) {
+    let formatter: Intl.DateTimeFormat | null = null;
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+      });
+    } catch {
+      console.warn(`Unknown time zone "${timeZone}", using device time`);
+    }
+    zonedFormatters.set(timeZone, formatter);
+  }
+  return zonedFormatters.get(timeZone) ?? null;
+}
+
+/**
+ * Check whether a time zone is a known IANA zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  return getZonedFormatter(timeZone) !== null;
+}
+
+/**
+ * Get the calendar fields of an instant in an IANA time zone
+ * (device local time when no time zone is given or it is unknown)
+ */
+export function getZonedDateParts(
+  date: Date,
+  timeZone?: string
+): ZonedDateParts {
+  const formatter = timeZone ? getZonedFormatter(timeZone) : null;
+  // Invalid dates give NaN fields instead of throwing
+  if (!formatter || isNaN(date.getTime())) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth(),
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+    };
+  }
+
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(date).forEach((part) => {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  });
+
+  return {
+    year: parts.year as number,
+    month: (parts.month as number) - 1,
+    day: parts.day as number,
+    hour: (parts.hour as number) % 24,
+    minute: parts.minute as number,
+  };
+}
+
+/**
+ * Pad a number to two digits
+ */
+function pad2(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+/**
+ * Build a day key (YYYY-MM-DD) from calendar fields (month 0-11)
+ */
+export function formatDateKey(
+  year: number,
+  month: number,
+  day: number
+): string {
+  return `${year}-${pad2(month + 1)}-${pad2(day)}`;
+}
+
+/**
+ * Split a day key (or hour key) into calendar fields (month 0-11)
+ */
+export function parseDateKey(key: string): {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+} {
+  return {
+    year: Number(key.slice(0, 4)),
+    month: Number(key.slice(5, 7)) - 1,
+    day: Number(key.slice(8, 10)),
+    hour: key.length > 10 ? Number(key.slice(11, 13)) : 0,
+  };
+}
+
+/**
+ * Check whether a date value is a date-only string (YYYY-MM-DD)
+ */
+export function isDateOnly(date: Date | string | number): date is string {
+  return typeof date === 'string' && DATE_ONLY_PATTERN.test(date);
+}
+
+/**
+ * Get the instant of a wall-clock time in a time zone (month 0-11)
+ */
+function zonedTimeToInstant(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): number {
+  // Correct a UTC guess by the zone offset; repeat once for DST edges
+  const target = Date.UTC(year, month, day, hour, minute);
+  let instant = target;
+  for (let i = 0; i < 2; i++) {
+    const parts = getZonedDateParts(new Date(instant), timeZone);
+    instant +=
+      target -
+      Date.UTC(parts.year, parts.month, parts.day, parts.hour, parts.minute);
+  }
+  return instant;
+}
+
+/**
+ * Convert a date, ISO datetime string or epoch milliseconds to the instant
+ * it names; datetimes without an offset are read in the time zone
+ */
+export function toInstant(
+  date: Date | string | number,
+  timeZone?: string
+): Date {
+  const match =
+    typeof date === 'string' && timeZone && isValidTimeZone(timeZone)
+      ? NAIVE_DATETIME_PATTERN.exec(date)
+      : null;
+  if (!match || !timeZone) {
+    return new Date(date);
+  }
+
+  const [, year, month, day, hour, minute, second = '0', fraction = ''] = match;
+  return new Date(
+    zonedTimeToInstant(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hour),
+      Number(minute),
+      timeZone
+    ) +
+      (Number(second) + Number(fraction || 0)) * 1000
+  );
+}
+
+/**
+ * Check whether a date value names a real instant or calendar day
+ */
+export function isValidDateValue(date: Date | string | number): boolean {
+  return !isNaN(toInstant(date).getTime());
+}
+
+/**
+ * Convert a date, ISO datetime string or epoch milliseconds to a
+ * calendar day key (YYYY-MM-DD) in the given time zone
+ */
+export function toDateKey(
+  date: Date | string | number,
+  timeZone?: string
+): string {
+  if (isDateOnly(date)) {
+    return date;
+  }
+
+  const { year, month, day } = getZonedDateParts(
+    toInstant(date, timeZone),
+    timeZone
+  );
+  return formatDateKey(year, month, day);
+}
+
+/**
+ * Build an hour bucket key (YYYY-MM-DDTHH:00:00) from a day key and hour
+ */
+export function formatHourKey(dateKey: string, hour: number): string {
+  return `${dateKey}T${pad2(hour)}:00:00`;
+}
+
+/**
+ * Convert a date, ISO datetime string or epoch milliseconds to an
+ * hour bucket key in the given time zone (date-only strings map to hour 0)
+ */
+export function toHourKey(
+  date: Date | string | number,
+  timeZone?: string
+): string {
+  if (isDateOnly(date)) {
+    return formatHourKey(date, 0);
+  }
+
+  const parts = getZonedDateParts(toInstant(date, timeZone), timeZone);
+  return formatHourKey(
+    formatDateKey(parts.year, parts.month, parts.day),
+    parts.hour
+  );
+}
+
+/**
+ * Convert a day or hour key back to the instant it starts at in a time zone
+ */
+export function fromDateKey(key: string, timeZone?: string): Date {
+  const { year, month, day, hour } = parseDateKey(key);
+
+  if (!timeZone || !isValidTimeZone(timeZone)) {
+    return new Date(year, month, day, hour);
+  }
+
+  return new Date(zonedTimeToInstant(year, month, day, hour, 0, timeZone));
+}
+
+/**
+ * Get day of week (0 = Sunday, 6 = Saturday) of a day key
+ */
+export function getDayOfWeekForKey(dateKey: string): number {
+  return new Date(`${dateKey.slice(0, 10)}T00:00:00.000Z`).getUTCDay();
+}
+
+/**
+ * Get the position of a day key within a week starting on weekStartsOn
+ */
+export function getWeekdayIndex(
+  dateKey: string,
+  weekStartsOn: WeekStartsOn = 0
+): number {
+  return (getDayOfWeekForKey(dateKey) - weekStartsOn + 7) % 7;
+}
+
+/**
+ * Get the day key starting the week that contains a day key
+ */
+export function getStartOfWeekKey(
+  dateKey: string,
+  weekStartsOn: WeekStartsOn = 0
+): string {
+  return addDaysToKey(dateKey, -getWeekdayIndex(dateKey, weekStartsOn));
+}
+
+/**
+ * Get the week of year of a day key. ISO weeks always start on Monday and
+ * week 1 holds the first Thursday; US weeks start on weekStartsOn and week 1
+ * holds 1 January.
+ */
+export function getWeekNumberForKey(
+  dateKey: string,
+  weekNumbering: WeekNumbering = 'us',
+  weekStartsOn: WeekStartsOn = 0
+): number {
+  if (weekNumbering === 'iso') {
+    const thursday = addDaysToKey(dateKey, 3 - getWeekdayIndex(dateKey, 1));
+    const firstDayOfYear = formatDateKey(parseDateKey(thursday).year, 0, 1);
+    return Math.floor(diffDaysBetweenKeys(firstDayOfYear, thursday) / 7) + 1;
+  }
+
+  const firstDayOfYear = formatDateKey(parseDateKey(dateKey).year, 0, 1);
+  return Math.ceil(
+    (diffDaysBetweenKeys(firstDayOfYear, dateKey) +
+      getWeekdayIndex(firstDayOfYear, weekStartsOn) +
+      1) /
+      7
+  );
+}
+
+/**
+ * Get the number of days in a month (month 0-11)
+ */
+export function getDaysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Number of calendar days from one day key to another
+ */
+export function diffDaysBetweenKeys(fromKey: string, toKey: string): number {
+  return Math.round(
+    (Date.parse(`${toKey.slice(0, 10)}T00:00:00.000Z`) -
+      Date.parse(`${fromKey.slice(0, 10)}T00:00:00.000Z`)) /
+      86400000
+  );
+}
+
+/**
+ * Add months to a day key, clamping the day to the target month length
+ */
+export function addMonthsToKey(dateKey: string, months: number): string {
+  const { year, month, day } = parseDateKey(dateKey);
+  const target = new Date(Date.UTC(year, month + months, 1));
+  const targetYear = target.getUTCFullYear();
+  const targetMonth = target.getUTCMonth();
+  return formatDateKey(
+    targetYear,
+    targetMonth,
+    Math.min(day, getDaysInMonth(targetYear, targetMonth))
+  );
+}
+
+/**
+ * Format a day key for labels without shifting it through a time zone
+ */
+export function formatDateKeyLabel(
+  dateKey: string,
+  options: Intl.DateTimeFormatOptions,
+  locale: string = 'en-US'
+): string {
+  return new Date(`${dateKey.slice(0, 10)}T00:00:00.000Z`).toLocaleDateString(
+    locale,
+    { ...options, timeZone: 'UTC' }
+  );
+}
+
+/**
+ * Format a weekday name (0 = Sunday) in a locale
+ */
+export function formatWeekdayLabel(
+  dayOfWeek: number,
+  locale: string = 'en-US',
+  width: 'narrow' | 'short' | 'long' = 'short'
+): string {
+  // 2023-01-01 is a Sunday
+  return formatDateKeyLabel(
+    formatDateKey(2023, 0, 1 + dayOfWeek),
+    { weekday: width },
+    locale
+  );
+}
+
+/**
+ * Format an hour of the day (0-23) in a locale, using the locale's own
+ * hour cycle unless a time format is given
+ */
+export function formatHourLabel(
+  hour: number,
+  locale: string = 'en-US',
+  timeFormat?: '12h' | '24h'
+): string {
+  const options: Intl.DateTimeFormatOptions =
+    timeFormat === '24h'
+      ? { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }
+      : { hour: 'numeric', hour12: timeFormat === '12h' ? true : undefined };
+
+  return normalizeSpaces(
+    new Date(Date.UTC(2000, 0, 1, hour)).toLocaleTimeString(locale, {
+      ...options,
+      timeZone: 'UTC',
+    })
+  );
+}
+
+/**
+ * Format a day or hour key as a full date (and time) in a locale; month
+ * 'long' spells out the month name, e.g. for screen readers
+ */
+export function formatDateKeyLong(
+  key: string,
+  locale: string = 'en-US',
+  month: 'short' | 'long' = 'short'
+): string {
+  const { year, month: monthIndex, day, hour } = parseDateKey(key);
+  const options: Intl.DateTimeFormatOptions = {
+    year: 'numeric',
+    month,
+    day: 'numeric',
+    ...(key.length > 10 && { hour: 'numeric', minute: '2-digit' }),
+    timeZone: 'UTC',
+  };
+
+  return normalizeSpaces(
+    new Date(Date.UTC(year, monthIndex, day, hour)).toLocaleString(
+      locale,
+      options
+    )
+  );
+}
+
+/**
+ * Replace the narrow no-break spaces newer ICU versions put in time strings
+ */
+function normalizeSpaces(text: string): string {
+  return text.replace(/\u202f/g, ' ');
+}
+
+/**
+ * Add days to a day key using calendar arithmetic (unaffected by DST)
+ */
+export function addDaysToKey(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Generate consecutive day keys from start to end (inclusive)
+ */
+export function generateDateKeys(startKey: string, endKey: string): string[] {
+  const keys: string[] = [];
+  for (let key = startKey; key <= endKey; key = addDaysToKey(key, 1)) {
+    keys.push(key);
+  }
+  return keys;
+}
@@ -3,7 +3,7 @@
  * Provides pan, zoom, and touch gesture handling
  */
 
-import type { GestureConfig } from '../types';
+import type { GestureConfig, GestureTransform } from '../types';
 
 /**
  * Default gesture configuration
@@ -13,11 +13,22 @@ export const DEFAULT_GESTURE_CONFIG: GestureConfig = {
   pan: true,
   zoom: true,
   swipe: false,
+  brush: false,
+  brushActivationDelay: 300,
   minZoom: 0.5,
   maxZoom: 3.0,
   hapticFeedback: true,
 };
 
+/**
+ * Untransformed content (no pan, no zoom)
+ */
+export const IDENTITY_TRANSFORM: GestureTransform = {
+  translateX: 0,
+  translateY: 0,
+  scale: 1,
+};
+
 /**
  * Check if gesture handler is available
  */
@@ -153,6 +164,63 @@ export function calculateGestureTransform(
   };
 }
 
+/**
+ * Clamp a transform to the zoom limits and the pan bounds at its scale
+ */
+export function clampGestureTransform(
+  transform: GestureTransform,
+  contentSize: { width: number; height: number },
+  containerSize: { width: number; height: number },
+  config: GestureConfig
+): GestureTransform {
+  const { minZoom, maxZoom } = calculateZoomBounds(
+    contentSize,
+    containerSize,
+    config
+  );
+  const scale = clampValue(transform.scale, minZoom, maxZoom);
+
+  return calculateGestureTransform(
+    { x: transform.translateX, y: transform.translateY },
+    scale,
+    {
+      ...calculatePanBounds(contentSize, containerSize, scale),
+      minZoom,
+      maxZoom,
+    }
+  );
+}
+
+/**
+ * Change the scale of a transform while keeping a focal point in place
+ */
+export function zoomAroundPoint(
+  transform: GestureTransform,
+  scale: number,
+  focal: { x: number; y: number }
+): GestureTransform {
+  const ratio = scale / transform.scale;
+
+  return {
+    translateX: focal.x - (focal.x - transform.translateX) * ratio,
+    translateY: focal.y - (focal.y - transform.translateY) * ratio,
+    scale,
+  };
+}
+
+/**
+ * Map a point in content coordinates to container coordinates
+ */
+export function applyGestureTransform(
+  point: { x: number; y: number },
+  transform: GestureTransform
+): { x: number; y: number } {
+  return {
+    x: point.x * transform.scale + transform.translateX,
+    y: point.y * transform.scale + transform.translateY,
+  };
+}
+
 /**
  * Merge gesture configurations
  */
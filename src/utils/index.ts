@@ -14,64 +14,506 @@ import type {
   CustomRangeLayoutData,
   TimelineScrollLayoutData,
   RealTimeLayoutData,
+  LegendStep,
+  ValueScale,
+  ValueDomain,
+  ProcessDataOptions,
+  AggregateFunction,
+  AggregatedHeatmapData,
+  WeekOptions,
+  LayoutDirection,
+  CalendarOrientation,
+  HeatmapSummary,
+  AccessibilityStrings,
+  TooltipStrings,
 } from '../types';
 import { COLOR_SCHEMES } from '../types';
+import {
+  toDateKey,
+  toHourKey,
+  fromDateKey,
+  toInstant,
+  isValidDateValue,
+  formatDateKey,
+  parseDateKey,
+  formatHourKey,
+  formatDateKeyLabel,
+  formatDateKeyLong,
+  formatHourLabel,
+  formatWeekdayLabel,
+  addDaysToKey,
+  addMonthsToKey,
+  diffDaysBetweenKeys,
+  generateDateKeys,
+  getDayOfWeekForKey,
+  getDaysInMonth,
+  getWeekdayIndex,
+  getStartOfWeekKey,
+  getWeekNumberForKey,
+} from './dates';
 
 /**
- * Generate date range between start and end dates
+ * Generate the calendar days between start and end dates (inclusive)
+ * as seen in the given time zone (device time by default)
  */
-export function generateDateRange(startDate: Date, endDate: Date): string[] {
-  const dates: string[] = [];
-  const current = new Date(startDate);
-
-  while (current <= endDate) {
-    dates.push(formatDateISO(current));
-    current.setDate(current.getDate() + 1);
-  }
-
-  return dates;
+export function generateDateRange(
+  startDate: Date,
+  endDate: Date,
+  timeZone?: string
+): string[] {
+  return generateDateKeys(
+    toDateKey(startDate, timeZone),
+    toDateKey(endDate, timeZone)
+  );
 }
 
 /**
- * Format date to ISO string (YYYY-MM-DD)
+ * Format date to ISO string (YYYY-MM-DD) in the given time zone
+ * (device time by default)
  */
-export function formatDateISO(date: Date): string {
-  return date.toISOString().split('T')[0] as string;
+export function formatDateISO(date: Date, timeZone?: string): string {
+  return toDateKey(date, timeZone);
 }
 
 /**
- * Parse ISO date string to Date object
+ * Parse ISO date string (or hour bucket key) to Date object
  */
 export function parseISODate(dateString: string): Date {
+  if (dateString.length > 10) {
+    return new Date(dateString.slice(0, 19) + '.000Z');
+  }
   return new Date(dateString + 'T00:00:00.000Z');
 }
 
 /**
- * Get week number of the year
+ * Get week number of the year in the given time zone
  */
-export function getWeekNumber(date: Date): number {
-  const firstDayOfYear = new Date(date.getFullYear(), 0, 1);
-  const pastDaysOfYear = (date.getTime() - firstDayOfYear.getTime()) / 86400000;
-  return Math.ceil((pastDaysOfYear + firstDayOfYear.getDay() + 1) / 7);
+export function getWeekNumber(
+  date: Date,
+  timeZone?: string,
+  weekOptions: WeekOptions = {}
+): number {
+  return getWeekNumberForKey(
+    toDateKey(date, timeZone),
+    weekOptions.weekNumbering,
+    weekOptions.weekStartsOn
+  );
 }
 
 /**
- * Get day of week (0 = Sunday, 6 = Saturday)
+ * Get day of week (0 = Sunday, 6 = Saturday) in the given time zone
  */
-export function getDayOfWeek(date: Date): number {
-  return date.getDay();
+export function getDayOfWeek(date: Date, timeZone?: string): number {
+  return getDayOfWeekForKey(toDateKey(date, timeZone));
 }
 
 /**
- * Normalize value to 0-1 range based on min/max values
+ * Steepness of the exponential scale curve
+ */
+const EXPONENTIAL_STEEPNESS = 3;
+
+/**
+ * Normalize value to 0-1 range based on min/max values and scale
  */
 export function normalizeValue(
   value: number,
   min: number,
-  max: number
+  max: number,
+  scale: ValueScale = 'linear',
+  sortedValues: number[] = []
 ): number {
   if (max === min) return value > 0 ? 1 : 0;
-  return Math.max(0, Math.min(1, (value - min) / (max - min)));
+  const linear = Math.max(0, Math.min(1, (value - min) / (max - min)));
+
+  switch (scale) {
+    case 'logarithmic':
+      return Math.log1p(linear * (max - min)) / Math.log1p(max - min);
+    case 'exponential':
+      return (
+        Math.expm1(linear * EXPONENTIAL_STEEPNESS) /
+        Math.expm1(EXPONENTIAL_STEEPNESS)
+      );
+    case 'sqrt':
+      return Math.sqrt(linear);
+    case 'quantile': {
+      if (sortedValues.length === 0) return linear;
+      // Rank = share of values less than or equal to this value
+      let low = 0;
+      let high = sortedValues.length;
+      while (low < high) {
+        const mid = Math.floor((low + high) / 2);
+        if ((sortedValues[mid] as number) <= value) {
+          low = mid + 1;
+        } else {
+          high = mid;
+        }
+      }
+      return value <= min ? 0 : low / sortedValues.length;
+    }
+    case 'linear':
+    default:
+      return linear;
+  }
+}
+
+/**
+ * Map a normalized value (0-1) back onto the min/max value range,
+ * inverting the scale applied by normalizeValue
+ */
+export function denormalizeValue(
+  normalizedValue: number,
+  min: number,
+  max: number,
+  scale: ValueScale = 'linear',
+  sortedValues: number[] = []
+): number {
+  const clamped = Math.max(0, Math.min(1, normalizedValue));
+  const span = max - min;
+
+  switch (scale) {
+    case 'logarithmic':
+      return min + Math.expm1(clamped * Math.log1p(span));
+    case 'exponential':
+      return (
+        min +
+        (Math.log1p(clamped * Math.expm1(EXPONENTIAL_STEEPNESS)) /
+          EXPONENTIAL_STEEPNESS) *
+          span
+      );
+    case 'sqrt':
+      return min + clamped * clamped * span;
+    case 'quantile': {
+      if (sortedValues.length === 0 || clamped === 0) {
+        return min + clamped * span;
+      }
+      const rank = Math.ceil(clamped * sortedValues.length) - 1;
+      return sortedValues[Math.max(0, rank)] as number;
+    }
+    case 'linear':
+    default:
+      return min + clamped * span;
+  }
+}
+
+/**
+ * Find the min/max values used for normalization
+ */
+export function calculateValueRange(data: HeatmapData[]): {
+  min: number;
+  max: number;
+} {
+  const values = data
+    .map((item) => item.value)
+    .filter((value) => value !== undefined && value !== null);
+
+  return {
+    min: Math.min(...values, 0),
+    max: Math.max(...values, 0),
+  };
+}
+
+/**
+ * Reduce the values of entries sharing a cell
+ */
+function reduceValues(
+  values: number[],
+  entries: HeatmapData[],
+  aggregate: AggregateFunction
+): number {
+  if (typeof aggregate === 'function') {
+    return aggregate(values, entries);
+  }
+
+  switch (aggregate) {
+    case 'count':
+      return entries.length;
+    case 'mean':
+      return values.reduce((sum, value) => sum + value, 0) / values.length;
+    case 'max':
+      return Math.max(...values);
+    case 'min':
+      return Math.min(...values);
+    case 'sum':
+    default:
+      return values.reduce((sum, value) => sum + value, 0);
+  }
+}
+
+/**
+ * Collapse entries that share a day (or hour) bucket into one entry per bucket
+ */
+export function aggregateHeatmapData(
+  data: HeatmapData[],
+  aggregate: AggregateFunction = 'sum',
+  granularity: 'day' | 'hour' = 'day',
+  timeZone?: string
+): AggregatedHeatmapData[] {
+  const groups = new Map<string, HeatmapData[]>();
+  data.forEach((item) => {
+    // Entries with unparseable dates are skipped
+    if (!isValidDateValue(item.date)) {
+      return;
+    }
+
+    const key =
+      granularity === 'hour'
+        ? toHourKey(item.date, timeZone)
+        : toDateKey(item.date, timeZone);
+    const group = groups.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  });
+
+  return Array.from(groups, ([date, entries]) => {
+    const values = entries
+      .map((entry) => entry.value)
+      .filter((value) => value !== undefined && value !== null);
+
+    // Keep missing values missing unless entries themselves are counted
+    const value =
+      values.length === 0 && aggregate !== 'count'
+        ? (entries[entries.length - 1] as HeatmapData).value
+        : reduceValues(values, entries, aggregate);
+
+    // Later entries win on conflicting metadata keys
+    const metadata = entries.reduce<Record<string, any> | undefined>(
+      (merged, entry) =>
+        entry.metadata ? { ...merged, ...entry.metadata } : merged,
+      undefined
+    );
+
+    return { date, value, metadata, entries };
+  });
+}
+
+/**
+ * Build the value domain (min/max, scale and value distribution) for normalization
+ */
+export function calculateValueDomain(
+  data: HeatmapData[],
+  scale: ValueScale = 'linear'
+): ValueDomain {
+  const { min, max } = calculateValueRange(data);
+  const sortedValues =
+    scale === 'quantile'
+      ? data
+          .map((item) => item.value)
+          .filter((value) => value !== undefined && value !== null)
+          .sort((a, b) => a - b)
+      : [];
+
+  return { min, max, scale, sortedValues };
+}
+
+/**
+ * Resolve the value scale from an explicit option or the color scheme
+ */
+export function resolveValueScale(
+  colorScheme: ColorScheme | string,
+  scale?: ValueScale
+): ValueScale {
+  return scale ?? resolveColorScheme(colorScheme).interpolation ?? 'linear';
+}
+
+/**
+ * Format a numeric value for legend ticks and tooltips in a locale
+ */
+export function formatValueLabel(
+  value: number,
+  locale: string = 'en-US'
+): string {
+  return value.toLocaleString(locale, { maximumFractionDigits: 1 });
+}
+
+/**
+ * Screen reader label for a cell, e.g. "March 3, 2025: 7"
+ */
+export function formatCellAccessibilityLabel(
+  cell: ProcessedCellData,
+  locale: string = 'en-US'
+): string {
+  return `${formatDateKeyLong(cell.date, locale, 'long')}: ${formatValueLabel(
+    cell.value,
+    locale
+  )}`;
+}
+
+/**
+ * English screen reader text
+ */
+export const DEFAULT_ACCESSIBILITY_STRINGS: Required<AccessibilityStrings> = {
+  heatmap: 'Heatmap visualization',
+  noData: 'No data',
+  total: (total) => `Total: ${total}`,
+  highest: (value, date) => `Highest: ${value} on ${date}`,
+  longestStreak: (days) =>
+    `Longest streak: ${days} ${days === 1 ? 'day' : 'days'}`,
+  busiestWeekday: (weekday) => `Busiest weekday: ${weekday}`,
+  nextDay: 'Next day',
+  previousDay: 'Previous day',
+  nextWeek: 'Next week',
+  previousWeek: 'Previous week',
+};
+
+/**
+ * English text of the default tooltip content
+ */
+export const DEFAULT_TOOLTIP_STRINGS: Required<TooltipStrings> = {
+  value: (value) => `Value: ${value}`,
+  range: (min, max) => `Range: ${min}–${max}`,
+};
+
+/**
+ * Summarize cells for screen readers: the days covered, the total, the
+ * highest day, the longest streak of active days and the busiest weekday
+ */
+export function calculateHeatmapSummary(
+  cells: Array<Pick<ProcessedCellData, 'date' | 'value'>>
+): HeatmapSummary {
+  // Daily totals; filler cells have no date
+  const dailyTotals = new Map<string, number>();
+  cells.forEach((cell) => {
+    if (cell.date) {
+      const day = cell.date.slice(0, 10);
+      dailyTotals.set(day, (dailyTotals.get(day) ?? 0) + cell.value);
+    }
+  });
+  const days = [...dailyTotals.keys()].sort();
+
+  let total = 0;
+  let maxDay: HeatmapSummary['maxDay'] = null;
+  let longestStreak: HeatmapSummary['longestStreak'] = null;
+  let streakStart = '';
+  let lastActiveDay: string | null = null;
+  const weekdayTotals = [0, 0, 0, 0, 0, 0, 0];
+
+  for (const day of days) {
+    const value = dailyTotals.get(day) ?? 0;
+    const weekday = getDayOfWeekForKey(day);
+    total += value;
+    weekdayTotals[weekday] = (weekdayTotals[weekday] ?? 0) + value;
+
+    if (value <= 0) {
+      continue;
+    }
+    if (!maxDay || value > maxDay.value) {
+      maxDay = { date: day, value };
+    }
+
+    // A streak continues only from the day before
+    if (!lastActiveDay || diffDaysBetweenKeys(lastActiveDay, day) !== 1) {
+      streakStart = day;
+    }
+    lastActiveDay = day;
+    const length = diffDaysBetweenKeys(streakStart, day) + 1;
+    if (!longestStreak || length > longestStreak.length) {
+      longestStreak = { start: streakStart, end: day, length };
+    }
+  }
+
+  const busiestTotal = Math.max(...weekdayTotals);
+
+  return {
+    start: days[0] ?? null,
+    end: days[days.length - 1] ?? null,
+    total,
+    maxDay,
+    longestStreak,
+    busiestWeekday:
+      busiestTotal > 0 ? weekdayTotals.indexOf(busiestTotal) : null,
+  };
+}
+
+/**
+ * Format a heatmap summary as a sentence for screen readers, e.g.
+ * "Jan 1, 2024 – Dec 31, 2024. Total: 1,234. Highest: 17 on Mar 3, 2024.
+ * Longest streak: 12 days. Busiest weekday: Tuesday"
+ */
+export function formatHeatmapSummary(
+  summary: HeatmapSummary,
+  locale: string = 'en-US',
+  strings: AccessibilityStrings = {}
+): string {
+  const text = { ...DEFAULT_ACCESSIBILITY_STRINGS, ...strings };
+  const { start, end, total, maxDay, longestStreak, busiestWeekday } = summary;
+  if (!start || !end) {
+    return text.noData;
+  }
+
+  const parts = [
+    `${formatDateKeyLong(start, locale)} – ${formatDateKeyLong(end, locale)}`,
+    text.total(formatValueLabel(total, locale)),
+  ];
+  if (maxDay) {
+    parts.push(
+      text.highest(
+        formatValueLabel(maxDay.value, locale),
+        formatDateKeyLong(maxDay.date, locale)
+      )
+    );
+  }
+  if (longestStreak) {
+    parts.push(text.longestStreak(longestStreak.length));
+  }
+  if (busiestWeekday !== null) {
+    parts.push(
+      text.busiestWeekday(formatWeekdayLabel(busiestWeekday, locale, 'long'))
+    );
+  }
+  return parts.join('. ');
+}
+
+/**
+ * Calculate legend color steps and the value range each step covers
+ */
+export function calculateLegendSteps(
+  colorScheme: ColorScheme | string,
+  min: number,
+  max: number,
+  scale: ValueScale = 'linear',
+  sortedValues: number[] = []
+): LegendStep[] {
+  const resolvedColorScheme = resolveColorScheme(colorScheme);
+  const levels =
+    resolvedColorScheme.levels || resolvedColorScheme.colors.length;
+
+  if (levels <= 1) {
+    return [
+      {
+        color: calculateColor(1, resolvedColorScheme),
+        value: max,
+        min,
+        max,
+      },
+    ];
+  }
+
+  return Array.from({ length: levels }, (_, level) => {
+    const normalizedValue = level / (levels - 1);
+    const halfStep = 0.5 / (levels - 1);
+
+    return {
+      color: calculateColor(normalizedValue, resolvedColorScheme),
+      value: denormalizeValue(normalizedValue, min, max, scale, sortedValues),
+      min: denormalizeValue(
+        normalizedValue - halfStep,
+        min,
+        max,
+        scale,
+        sortedValues
+      ),
+      max: denormalizeValue(
+        normalizedValue + halfStep,
+        min,
+        max,
+        scale,
+        sortedValues
+      ),
+    };
+  });
 }
 
 /**
@@ -111,6 +553,63 @@ export function calculateColor(
   );
 }
 
+/**
+ * Color part way through a value transition, taken from the color scheme so
+ * the tween follows the scale rather than a straight line between colors
+ */
+export function calculateTransitionColor(
+  fromNormalizedValue: number,
+  toNormalizedValue: number,
+  progress: number,
+  colorScheme: ColorScheme
+): string {
+  return calculateColor(
+    fromNormalizedValue +
+      (toNormalizedValue - fromNormalizedValue) * Math.min(1, progress),
+    colorScheme
+  );
+}
+
+/**
+ * Progress stops and colors of a value transition, for an Animated
+ * interpolation of its 0-1 progress. Scheme colors blend linearly, so a stop
+ * wherever the value crosses a scheme color reproduces
+ * calculateTransitionColor
+ */
+export function calculateTransitionColorStops(
+  fromNormalizedValue: number,
+  toNormalizedValue: number,
+  colorScheme: ColorScheme
+): { inputRange: number[]; outputRange: string[] } {
+  const levels = colorScheme.levels || colorScheme.colors.length;
+  const inputRange = [0];
+  if (fromNormalizedValue !== toNormalizedValue) {
+    const crossings: number[] = [];
+    for (let level = 1; level < levels - 1; level++) {
+      const progress =
+        (level / (levels - 1) - fromNormalizedValue) /
+        (toNormalizedValue - fromNormalizedValue);
+      if (progress > 0 && progress < 1) {
+        crossings.push(progress);
+      }
+    }
+    inputRange.push(...crossings.sort((a, b) => a - b));
+  }
+  inputRange.push(1);
+
+  return {
+    inputRange,
+    outputRange: inputRange.map((progress) =>
+      calculateTransitionColor(
+        fromNormalizedValue,
+        toNormalizedValue,
+        progress,
+        colorScheme
+      )
+    ),
+  };
+}
+
 /**
  * Simple linear interpolation between two hex colors
  */
@@ -156,29 +655,58 @@ export function resolveColorScheme(
 
 /**
  * Process raw heatmap data into processed cell data
+ *
+ * With hourly granularity every day of the range is split into 24 cells,
+ * placed at x = hour and y = day offset.
  */
 export function processHeatmapData(
   data: HeatmapData[],
   startDate: Date,
   endDate: Date,
   colorScheme: ColorScheme | string,
-  layout: 'calendar' | 'grid' | 'compact' | 'custom' = 'calendar'
+  layout: 'calendar' | 'grid' | 'compact' | 'custom' = 'calendar',
+  options: ProcessDataOptions = {}
 ): ProcessedCellData[] {
   const resolvedColorScheme = resolveColorScheme(colorScheme);
-  const dateRange = generateDateRange(startDate, endDate);
+  const {
+    granularity = 'day',
+    timeZone,
+    weekStartsOn = 0,
+    weekNumbering,
+    orientation = 'horizontal',
+  } = options;
+  const dateRange =
+    granularity === 'hour'
+      ? generateDateKeys(
+          toDateKey(startDate, timeZone),
+          toDateKey(endDate, timeZone)
+        ).flatMap((dateKey) =>
+          Array.from({ length: 24 }, (_, hour) => formatHourKey(dateKey, hour))
+        )
+      : generateDateRange(startDate, endDate, timeZone);
+  // Calendar columns are whole weeks, so the first one may start earlier
+  const gridStartKey = getStartOfWeekKey(
+    toDateKey(startDate, timeZone),
+    weekStartsOn
+  );
 
-  // Create a map for quick lookup
-  const dataMap = new Map<string, HeatmapData>();
-  data.forEach((item) => {
+  // Collapse entries sharing a bucket and create a map for quick lookup
+  const aggregatedData = aggregateHeatmapData(
+    data,
+    options.aggregate,
+    granularity,
+    timeZone
+  );
+  const dataMap = new Map<string, AggregatedHeatmapData>();
+  aggregatedData.forEach((item) => {
     dataMap.set(item.date, item);
   });
 
-  // Find min/max values for normalization
-  const values = data
-    .map((item) => item.value)
-    .filter((value) => value !== undefined && value !== null);
-  const minValue = Math.min(...values, 0);
-  const maxValue = Math.max(...values, 0);
+  // Find min/max values and value distribution for normalization
+  const domain = calculateValueDomain(
+    aggregatedData,
+    resolveValueScale(resolvedColorScheme, options.scale)
+  );
 
   // Process each date in the range
   const processedData: ProcessedCellData[] = dateRange.map(
@@ -187,25 +715,33 @@ export function processHeatmapData(
       const isEmpty =
         !dataPoint || dataPoint.value === undefined || dataPoint.value === null;
       const value = isEmpty ? 0 : dataPoint.value;
-      const normalizedValue = normalizeValue(value, minValue, maxValue);
+      const normalizedValue = normalizeValue(
+        value,
+        domain.min,
+        domain.max,
+        domain.scale,
+        domain.sortedValues
+      );
       const color = calculateColor(
         normalizedValue,
         resolvedColorScheme,
         isEmpty
       );
 
-      const date = parseISODate(dateString);
-
       let x: number, y: number;
 
-      if (layout === 'calendar') {
+      if (granularity === 'hour') {
+        // Hourly cells: one row of 24 hours per day
+        x = index % 24;
+        y = Math.floor(index / 24);
+      } else if (layout === 'calendar') {
         // Calendar layout: arrange by weeks and days
-        const daysSinceStart = Math.floor(
-          (date.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000)
-        );
-        const weeksSinceStart = Math.floor(daysSinceStart / 7);
-        x = weeksSinceStart;
-        y = getDayOfWeek(date);
+        const daysSinceStart = diffDaysBetweenKeys(gridStartKey, dateString);
+        const week = Math.floor(daysSinceStart / 7);
+        const weekday = getWeekdayIndex(dateString, weekStartsOn);
+        // Vertical calendars transpose weeks into rows
+        x = orientation === 'vertical' ? weekday : week;
+        y = orientation === 'vertical' ? week : weekday;
       } else if (layout === 'grid') {
         // Grid layout: simple row/column arrangement
         const columns = Math.ceil(Math.sqrt(dateRange.length));
@@ -226,13 +762,20 @@ export function processHeatmapData(
         date: dateString,
         value,
         metadata: dataPoint?.metadata,
+        entries: dataPoint?.entries,
         x,
         y,
         color,
         isEmpty,
         normalizedValue,
-        week: layout === 'calendar' ? getWeekNumber(date) : undefined,
-        dayOfWeek: layout === 'calendar' ? getDayOfWeek(date) : undefined,
+        week:
+          layout === 'calendar' && granularity === 'day'
+            ? getWeekNumberForKey(dateString, weekNumbering, weekStartsOn)
+            : undefined,
+        dayOfWeek:
+          layout === 'calendar' && granularity === 'day'
+            ? getDayOfWeekForKey(dateString)
+            : undefined,
       };
     }
   );
@@ -245,63 +788,80 @@ export function processHeatmapData(
  */
 export function calculateCalendarLayout(
   processedData: ProcessedCellData[],
-  startDate: Date
+  startDate: Date,
+  timeZone?: string,
+  weekOptions: WeekOptions = {},
+  locale: string = 'en-US',
+  orientation: CalendarOrientation = 'horizontal'
 ): CalendarLayoutData {
+  const { weekStartsOn = 0, weekNumbering } = weekOptions;
+  const startKey = toDateKey(startDate, timeZone);
+  const gridStartKey = getStartOfWeekKey(startKey, weekStartsOn);
+
+  // Weeks run along x, or along y in vertical calendars
+  const isVertical = orientation === 'vertical';
+  const getWeek = (cell: ProcessedCellData) => (isVertical ? cell.y : cell.x);
+  const getWeekday = (cell: ProcessedCellData) =>
+    isVertical ? cell.x : cell.y;
+
   // Group data by weeks
   const weekData: ProcessedCellData[][] = [];
-  const maxWeek = Math.max(...processedData.map((d) => d.x));
+  const maxWeek = Math.max(...processedData.map(getWeek));
 
   for (let week = 0; week <= maxWeek; week++) {
-    const weekCells = processedData.filter((d) => d.x === week);
+    const weekCells = processedData.filter((d) => getWeek(d) === week);
     // Ensure we have 7 days in each week (fill missing days with empty cells)
     const fullWeek: ProcessedCellData[] = Array(7)
       .fill(null)
       .map((_, dayIndex) => {
-        const existingCell = weekCells.find((d) => d.y === dayIndex);
+        const existingCell = weekCells.find((d) => getWeekday(d) === dayIndex);
         if (existingCell) return existingCell;
 
         // Create empty cell for missing days
-        const cellDate = new Date(startDate);
-        cellDate.setDate(cellDate.getDate() + week * 7 + dayIndex);
+        const cellKey = addDaysToKey(gridStartKey, week * 7 + dayIndex);
 
         return {
-          date: formatDateISO(cellDate),
+          date: cellKey,
           value: 0,
-          x: week,
-          y: dayIndex,
+          x: isVertical ? dayIndex : week,
+          y: isVertical ? week : dayIndex,
           color: '#f0f0f0',
           isEmpty: true,
           normalizedValue: 0,
-          week: getWeekNumber(cellDate),
-          dayOfWeek: dayIndex,
+          week: getWeekNumberForKey(cellKey, weekNumbering, weekStartsOn),
+          dayOfWeek: getDayOfWeekForKey(cellKey),
         };
       });
     weekData.push(fullWeek);
   }
 
   // Calculate month boundaries
-  const monthBoundaries: Array<{ month: string; x: number; width: number }> =
-    [];
-  let currentMonth = startDate.getMonth();
+  const monthBoundaries: CalendarLayoutData['monthBoundaries'] = [];
+  let currentMonthKey = startKey;
   let monthStart = 0;
 
   for (let week = 0; week <= maxWeek; week++) {
-    const weekStart = new Date(startDate);
-    weekStart.setDate(weekStart.getDate() + week * 7);
-
-    if (weekStart.getMonth() !== currentMonth || week === maxWeek) {
+    // The first column is labelled by the start date, not the week start
+    const weekStartKey =
+      week === 0 ? startKey : addDaysToKey(gridStartKey, week * 7);
+
+    if (
+      weekStartKey.slice(0, 7) !== currentMonthKey.slice(0, 7) ||
+      week === maxWeek
+    ) {
       if (monthBoundaries.length > 0 || week > 0) {
-        const monthName = new Date(
-          startDate.getFullYear(),
-          currentMonth
-        ).toLocaleDateString('en-US', { month: 'short' });
         monthBoundaries.push({
-          month: monthName,
+          month: formatDateKeyLabel(
+            currentMonthKey,
+            { month: 'short' },
+            locale
+          ),
+          date: currentMonthKey,
           x: monthStart,
           width: week - monthStart,
         });
       }
-      currentMonth = weekStart.getMonth();
+      currentMonthKey = weekStartKey;
       monthStart = week;
     }
   }
@@ -313,6 +873,21 @@ export function calculateCalendarLayout(
   };
 }
 
+/**
+ * Calculate the horizontal offset of a cell column, mirrored across the
+ * content width for right-to-left layouts
+ */
+export function getColumnOffset(
+  column: number,
+  cellSize: number,
+  cellSpacing: number,
+  contentWidth: number,
+  direction: LayoutDirection = 'ltr'
+): number {
+  const offset = column * (cellSize + cellSpacing);
+  return direction === 'rtl' ? contentWidth - offset - cellSize : offset;
+}
+
 /**
  * Calculate grid dimensions for layout
  */
@@ -365,17 +940,22 @@ export function calculateHeatmapDimensions(
     | 'customRange'
     | 'timelineScroll'
     | 'realTime' = 'calendar',
-  gridDimensions?: { columns: number; rows: number }
+  gridDimensions?: { columns: number; rows: number },
+  orientation: CalendarOrientation = 'horizontal'
 ): { width: number; height: number } {
   if (layout === 'calendar') {
-    const maxWeek = Math.max(...processedData.map((d) => d.x));
+    const isVertical = orientation === 'vertical';
+    const maxWeek = Math.max(
+      ...processedData.map((d) => (isVertical ? d.y : d.x))
+    );
     const weeks = maxWeek + 1;
     const days = 7; // Always 7 days in calendar layout
+    const weeksSize = weeks * (cellSize + cellSpacing) - cellSpacing;
+    const daysSize = days * (cellSize + cellSpacing) - cellSpacing;
 
-    return {
-      width: weeks * (cellSize + cellSpacing) - cellSpacing,
-      height: days * (cellSize + cellSpacing) - cellSpacing,
-    };
+    return isVertical
+      ? { width: daysSize, height: weeksSize }
+      : { width: weeksSize, height: daysSize };
   }
 
   if (layout === 'compact') {
@@ -493,21 +1073,25 @@ export function throttle<T extends (...args: any[]) => any>(
 export function calculateDailyLayout(
   processedData: ProcessedCellData[],
   targetDate: Date,
-  timeFormat: '12h' | '24h' = '24h'
+  timeFormat: '12h' | '24h' = '24h',
+  timeZone?: string,
+  locale: string = 'en-US'
 ): DailyLayoutData {
-  const targetDateStr = formatDateISO(targetDate);
+  const targetDateStr = toDateKey(targetDate, timeZone);
 
-  // Filter data for the target date
-  const dayData = processedData.filter((cell) => cell.date === targetDateStr);
+  // Index hourly cells of the target date by their bucket key
+  const dayData = new Map<string, ProcessedCellData>();
+  processedData.forEach((cell) => {
+    if (cell.date.startsWith(`${targetDateStr}T`)) {
+      dayData.set(cell.date, cell);
+    }
+  });
 
   // Create hour boundaries
   const timeBoundaries = [];
   for (let hour = 0; hour < 24; hour++) {
-    const hourStr =
-      timeFormat === '12h' ? formatHour12(hour) : formatHour24(hour);
-
     timeBoundaries.push({
-      hour: hourStr,
+      hour: formatHourLabel(hour, locale, timeFormat),
       x: hour,
       width: 1,
     });
@@ -515,15 +1099,13 @@ export function calculateDailyLayout(
 
   // Organize data by hour
   const hourlyData = new Array(24).fill(null).map((_, hour) => {
-    const hourData = dayData.find((cell) => {
-      const cellDate = parseISODate(cell.date);
-      return cellDate.getHours() === hour;
-    });
+    const hourKey = formatHourKey(targetDateStr, hour);
+    const hourData = dayData.get(hourKey);
 
     return (
-      hourData ||
+      (hourData && { ...hourData, x: hour, y: 0 }) ||
       ({
-        date: `${targetDateStr}T${hour.toString().padStart(2, '0')}:00:00`,
+        date: hourKey,
         value: 0,
         x: hour,
         y: 0,
@@ -546,21 +1128,22 @@ export function calculateDailyLayout(
  */
 export function calculateWeeklyLayout(
   processedData: ProcessedCellData[],
-  targetDate: Date
+  targetDate: Date,
+  timeZone?: string,
+  weekOptions: WeekOptions = {},
+  locale: string = 'en-US'
 ): WeeklyLayoutData {
-  const startOfWeek = getStartOfWeek(targetDate);
-  const weekDates = [];
+  const startOfWeek = getStartOfWeekKey(
+    toDateKey(targetDate, timeZone),
+    weekOptions.weekStartsOn
+  );
 
   // Generate 7 days of the week
-  for (let i = 0; i < 7; i++) {
-    const day = new Date(startOfWeek);
-    day.setDate(startOfWeek.getDate() + i);
-    weekDates.push(formatDateISO(day));
-  }
+  const weekDates = generateDateKeys(startOfWeek, addDaysToKey(startOfWeek, 6));
 
   // Create day boundaries
   const dayBoundaries = weekDates.map((date, index) => ({
-    day: getDayName(parseISODate(date)),
+    day: formatDateKeyLabel(date, { weekday: 'short' }, locale),
     x: index,
     width: 1,
   }));
@@ -595,16 +1178,34 @@ export function calculateWeeklyLayout(
  */
 export function calculateMonthlyLayout(
   processedData: ProcessedCellData[],
-  targetDate: Date
+  targetDate: Date,
+  timeZone?: string,
+  weekOptions: WeekOptions = {}
+): MonthlyLayoutData {
+  const { year, month } = parseDateKey(toDateKey(targetDate, timeZone));
+  return buildMonthLayout(
+    indexCellsByDate(processedData),
+    year,
+    month,
+    weekOptions
+  );
+}
+
+/**
+ * Build the week rows of a month (month 0-11) from cells indexed by date
+ */
+function buildMonthLayout(
+  cellsByDate: Map<string, ProcessedCellData>,
+  year: number,
+  month: number,
+  weekOptions: WeekOptions
 ): MonthlyLayoutData {
-  const year = targetDate.getFullYear();
-  const month = targetDate.getMonth();
+  const { weekStartsOn = 0, weekNumbering } = weekOptions;
 
-  // Get first day of month and number of days
-  const firstDay = new Date(year, month, 1);
-  const lastDay = new Date(year, month + 1, 0);
-  const daysInMonth = lastDay.getDate();
-  const startDayOfWeek = firstDay.getDay();
+  // Get number of days and column of the first day
+  const daysInMonth = getDaysInMonth(year, month);
+  const firstDayKey = formatDateKey(year, month, 1);
+  const startDayOfWeek = getWeekdayIndex(firstDayKey, weekStartsOn);
 
   // Create month grid (weeks x days)
   const weeks = Math.ceil((daysInMonth + startDayOfWeek) / 7);
@@ -617,9 +1218,8 @@ export function calculateMonthlyLayout(
       const dayNumber = week * 7 + day - startDayOfWeek + 1;
 
       if (dayNumber > 0 && dayNumber <= daysInMonth) {
-        const date = new Date(year, month, dayNumber);
-        const dateStr = formatDateISO(date);
-        const cellData = processedData.find((cell) => cell.date === dateStr);
+        const dateStr = formatDateKey(year, month, dayNumber);
+        const cellData = cellsByDate.get(dateStr);
 
         weekData.push(
           cellData ||
@@ -653,6 +1253,12 @@ export function calculateMonthlyLayout(
   // Create week boundaries
   const weekBoundaries = Array.from({ length: weeks }, (_, index) => ({
     week: index + 1,
+    // Number each row by its first day inside the month
+    weekNumber: getWeekNumberForKey(
+      addDaysToKey(firstDayKey, Math.max(0, index * 7 - startDayOfWeek)),
+      weekNumbering,
+      weekStartsOn
+    ),
     x: 0,
     width: 7,
   }));
@@ -669,27 +1275,32 @@ export function calculateMonthlyLayout(
  */
 export function calculateYearlyLayout(
   processedData: ProcessedCellData[],
-  targetDate: Date
+  targetDate: Date,
+  timeZone?: string,
+  weekOptions: WeekOptions = {},
+  locale: string = 'en-US'
 ): YearlyLayoutData {
-  const year = targetDate.getFullYear();
+  const { year } = parseDateKey(toDateKey(targetDate, timeZone));
+  const cellsByDate = indexCellsByDate(processedData);
   const yearData: ProcessedCellData[][] = [];
 
   // Process each month
   for (let month = 0; month < 12; month++) {
-    const monthDate = new Date(year, month, 1);
-    const monthLayout = calculateMonthlyLayout(processedData, monthDate);
+    const monthLayout = buildMonthLayout(cellsByDate, year, month, weekOptions);
     yearData.push(monthLayout.monthData.flat());
   }
 
   // Create month boundaries
-  const monthBoundaries = Array.from({ length: 12 }, (_, index) => {
-    const monthDate = new Date(year, index, 1);
-    return {
-      month: monthDate.toLocaleDateString('en-US', { month: 'short' }),
-      x: index * 8, // Approximate spacing
-      width: 7,
-    };
-  });
+  const monthBoundaries = Array.from({ length: 12 }, (_, index) => ({
+    month: formatDateKeyLabel(
+      formatDateKey(year, index, 1),
+      { month: 'short' },
+      locale
+    ),
+    date: formatDateKey(year, index, 1),
+    x: index * 8, // Approximate spacing
+    width: 7,
+  }));
 
   return {
     months: 12,
@@ -705,48 +1316,69 @@ export function calculateCustomRangeLayout(
   processedData: ProcessedCellData[],
   startDate: Date,
   endDate: Date,
-  granularity: 'hour' | 'day' | 'week' | 'month' = 'day'
+  granularity: 'hour' | 'day' | 'week' | 'month' = 'day',
+  timeZone?: string,
+  weekOptions: WeekOptions = {},
+  locale: string = 'en-US'
 ): CustomRangeLayoutData {
+  const { weekStartsOn = 0, weekNumbering } = weekOptions;
   const rangeData: ProcessedCellData[] = [];
   const periodBoundaries: Array<{
     period: string;
     x: number;
     width: number;
   }> = [];
-
-  let current = new Date(startDate);
-  let position = 0;
-
-  while (current <= endDate) {
-    let periodEnd: Date;
-    let periodLabel: string;
-
-    switch (granularity) {
-      case 'hour':
-        periodEnd = new Date(current);
-        periodEnd.setHours(current.getHours() + 1);
-        periodLabel = current.toLocaleTimeString('en-US', { hour: 'numeric' });
-        break;
-      case 'day':
-        periodEnd = new Date(current);
-        periodEnd.setDate(current.getDate() + 1);
-        periodLabel = current.toLocaleDateString('en-US', { day: 'numeric' });
-        break;
-      case 'week':
-        periodEnd = new Date(current);
-        periodEnd.setDate(current.getDate() + 7);
-        periodLabel = `W${getWeekNumber(current)}`;
-        break;
-      case 'month':
-        periodEnd = new Date(current);
-        periodEnd.setMonth(current.getMonth() + 1);
-        periodLabel = current.toLocaleDateString('en-US', { month: 'short' });
-        break;
+  const cellsByDate = indexCellsByDate(processedData);
+  const periods: Array<{ key: string; label: string }> = [];
+
+  if (granularity === 'hour') {
+    // Hours step in real time, so DST days have 23 or 25 periods
+    for (
+      let current = startDate.getTime();
+      current <= endDate.getTime();
+      current += 60 * 60 * 1000
+    ) {
+      const key = toHourKey(current, timeZone);
+      periods.push({
+        key,
+        label: formatHourLabel(parseDateKey(key).hour, locale),
+      });
     }
+  } else {
+    // Days, weeks and months step on the calendar of the time zone
+    // Week periods start on the configured first day of the week
+    const startKey =
+      granularity === 'week'
+        ? getStartOfWeekKey(toDateKey(startDate, timeZone), weekStartsOn)
+        : toDateKey(startDate, timeZone);
+    const endKey = toDateKey(endDate, timeZone);
+
+    for (let index = 0; ; index++) {
+      const key =
+        granularity === 'month'
+          ? addMonthsToKey(startKey, index)
+          : addDaysToKey(startKey, granularity === 'week' ? index * 7 : index);
+      if (key > endKey) break;
+
+      periods.push({
+        key,
+        label:
+          granularity === 'week'
+            ? `W${getWeekNumberForKey(key, weekNumbering, weekStartsOn)}`
+            : formatDateKeyLabel(
+                key,
+                granularity === 'month'
+                  ? { month: 'short' }
+                  : { day: 'numeric' },
+                locale
+              ),
+      });
+    }
+  }
 
+  periods.forEach(({ key: periodDataStr, label: periodLabel }, position) => {
     // Find data for this period
-    const periodDataStr = formatDateISO(current);
-    const cellData = processedData.find((cell) => cell.date === periodDataStr);
+    const cellData = cellsByDate.get(periodDataStr);
 
     rangeData.push(
       cellData ||
@@ -766,10 +1398,7 @@ export function calculateCustomRangeLayout(
       x: position,
       width: 1,
     });
-
-    current = periodEnd;
-    position++;
-  }
+  });
 
   return {
     startDate,
@@ -785,7 +1414,8 @@ export function calculateCustomRangeLayout(
 export function calculateTimelineScrollLayout(
   processedData: ProcessedCellData[],
   scrollDirection: 'horizontal' | 'vertical' = 'horizontal',
-  chunkSize: number = 24
+  chunkSize: number = 24,
+  locale: string = 'en-US'
 ): TimelineScrollLayoutData {
   const timelineData: ProcessedCellData[][] = [];
   const scrollMarkers: Array<{
@@ -795,8 +1425,8 @@ export function calculateTimelineScrollLayout(
   }> = [];
 
   // Sort data by date
-  const sortedData = [...processedData].sort(
-    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+  const sortedData = [...processedData].sort((a, b) =>
+    a.date.localeCompare(b.date)
   );
 
   // Group data into chunks
@@ -809,10 +1439,11 @@ export function calculateTimelineScrollLayout(
       scrollMarkers.push({
         timestamp: chunk[0].date,
         position: i,
-        label: new Date(chunk[0].date).toLocaleDateString('en-US', {
-          month: 'short',
-          day: 'numeric',
-        }),
+        label: formatDateKeyLabel(
+          chunk[0].date,
+          { month: 'short', day: 'numeric' },
+          locale
+        ),
       });
     }
   }
@@ -830,31 +1461,62 @@ export function calculateTimelineScrollLayout(
 }
 
 /**
- * Calculate real-time layout
+ * Whether a real-time entry at this time is live: within two update
+ * intervals of now
+ */
+function isLiveTimestamp(
+  timestamp: Date,
+  updateInterval: number,
+  now: Date
+): boolean {
+  return now.getTime() - timestamp.getTime() < updateInterval * 2;
+}
+
+/**
+ * Calculate real-time layout. Live indicators are timed from the latest raw
+ * entry in each cell when data is given, or from the cell's start otherwise
  */
 export function calculateRealTimeLayout(
   processedData: ProcessedCellData[],
   windowSize: number = 24, // Number of time units to show
-  updateInterval: number = 1000 // Update interval in milliseconds
+  updateInterval: number = 1000, // Update interval in milliseconds
+  timeZone?: string,
+  data?: HeatmapData[],
+  now: Date = new Date()
 ): RealTimeLayoutData {
-  const now = new Date();
   const windowStart = new Date(now.getTime() - windowSize * 60 * 60 * 1000); // windowSize hours ago
 
   // Filter data for current window
   const dataBuffer = processedData.filter((cell) => {
-    const cellDate = parseISODate(cell.date);
+    const cellDate = fromDateKey(cell.date, timeZone);
     return cellDate >= windowStart && cellDate <= now;
   });
 
+  // Latest entry in each day and hour cell
+  const latestEntries = new Map<string, number>();
+  data?.forEach((item) => {
+    if (!isValidDateValue(item.date)) {
+      return;
+    }
+    const time = toInstant(item.date, timeZone).getTime();
+    [toDateKey(item.date, timeZone), toHourKey(item.date, timeZone)].forEach(
+      (key) =>
+        latestEntries.set(key, Math.max(latestEntries.get(key) ?? time, time))
+    );
+  });
+
   // Create live indicators
   const liveIndicators = dataBuffer.map((cell, index) => {
-    const cellDate = parseISODate(cell.date);
-    const isRecent = now.getTime() - cellDate.getTime() < updateInterval * 2;
+    const latest = latestEntries.get(cell.date);
+    const timestamp =
+      latest !== undefined
+        ? new Date(latest)
+        : fromDateKey(cell.date, timeZone);
 
     return {
-      timestamp: cellDate,
+      timestamp,
       position: index,
-      active: isRecent,
+      active: isLiveTimestamp(timestamp, updateInterval, now),
     };
   });
 
@@ -870,49 +1532,52 @@ export function calculateRealTimeLayout(
 }
 
 /**
- * ===============================
- * HELPER FUNCTIONS
- * ===============================
+ * Dates of the real-time cells that are live at this moment; the layout's
+ * own active flags only hold for the time it was calculated
  */
-
-/**
- * Format hour in 12-hour format
- */
-function formatHour12(hour: number): string {
-  if (hour === 0) return '12 AM';
-  if (hour < 12) return `${hour} AM`;
-  if (hour === 12) return '12 PM';
-  return `${hour - 12} PM`;
+export function getLiveDates(
+  realTime: RealTimeLayoutData,
+  updateInterval: number,
+  now: Date = new Date()
+): string[] {
+  return realTime.liveIndicators
+    .filter((indicator) =>
+      isLiveTimestamp(indicator.timestamp, updateInterval, now)
+    )
+    .map((indicator) => realTime.dataBuffer[indicator.position]?.date)
+    .filter((date): date is string => !!date);
 }
 
 /**
- * Format hour in 24-hour format
+ * ===============================
+ * HELPER FUNCTIONS
+ * ===============================
  */
-function formatHour24(hour: number): string {
-  return `${hour.toString().padStart(2, '0')}:00`;
-}
 
 /**
- * Get start of week (Sunday)
+ * Index cells by their date key for constant-time lookup
  */
-function getStartOfWeek(date: Date): Date {
-  const start = new Date(date);
-  const day = start.getDay();
-  const diff = start.getDate() - day;
-  start.setDate(diff);
-  start.setHours(0, 0, 0, 0);
-  return start;
+function indexCellsByDate(
+  processedData: ProcessedCellData[]
+): Map<string, ProcessedCellData> {
+  const cellsByDate = new Map<string, ProcessedCellData>();
+  processedData.forEach((cell) => {
+    cellsByDate.set(cell.date, cell);
+  });
+  return cellsByDate;
 }
 
-/**
- * Get day name
- */
-function getDayName(date: Date): string {
-  return date.toLocaleDateString('en-US', { weekday: 'short' });
-}
+// Export date utilities
+export * from './dates';
 
 // Export animation utilities
 export * from './animation';
 
 // Export gesture utilities
 export * from './gestures';
+
+// Export selection utilities
+export * from './selection';
+
+// Export keyboard navigation utilities
+export * from './keyboard';
@@ -0,0 +1,61 @@
+/**
+ * Keyboard utilities for React Native Heatmap
+ * Resolves which cell an arrow key moves focus to on web and TV
+ */
+
+import type { LayoutDirection, ProcessedCellData } from '../types';
+
+/**
+ * Key event passed to onKeyDown by react-native-web
+ */
+export interface HeatmapKeyEvent {
+  nativeEvent: { key: string };
+  preventDefault?: () => void;
+}
+
+/**
+ * Grid steps for each arrow key, before mirroring for right-to-left
+ */
+export const ARROW_KEY_STEPS: Record<string, { column: number; row: number }> =
+  {
+    ArrowLeft: { column: -1, row: 0 },
+    ArrowRight: { column: 1, row: 0 },
+    ArrowUp: { column: 0, row: -1 },
+    ArrowDown: { column: 0, row: 1 },
+  };
+
+/**
+ * Index dated cells by grid slot
+ */
+export function indexCellsByPosition(
+  cells: ProcessedCellData[]
+): Map<string, ProcessedCellData> {
+  const positions = new Map<string, ProcessedCellData>();
+  cells.forEach((cell) => {
+    if (cell.date) {
+      positions.set(`${cell.x},${cell.y}`, cell);
+    }
+  });
+  return positions;
+}
+
+/**
+ * Find the cell an arrow key moves to from a cell, following the grid as
+ * drawn: in the calendar layout left and right move by a week. Returns null
+ * for other keys or at the edge of the grid
+ */
+export function getKeyboardNavigationTarget(
+  cell: ProcessedCellData,
+  key: string,
+  cellsByPosition: Map<string, ProcessedCellData>,
+  direction: LayoutDirection = 'ltr'
+): ProcessedCellData | null {
+  const step = ARROW_KEY_STEPS[key];
+  if (!step) {
+    return null;
+  }
+
+  // Columns are mirrored in right-to-left layouts
+  const column = cell.x + (direction === 'rtl' ? -step.column : step.column);
+  return cellsByPosition.get(`${column},${cell.y + step.row}`) ?? null;
+}
@@ -0,0 +1,123 @@
+/**
+ * Selection utilities for React Native Heatmap
+ * Resolves how a cell press changes the selected dates in each selection mode
+ */
+
+import type { SelectionMode } from '../types';
+import type { GridBounds } from './virtualization';
+
+/**
+ * Selected dates plus the pending start of a range selection
+ */
+export interface SelectionState {
+  /** Selected date keys */
+  selectedDates: string[];
+  /** First date of a range awaiting its second tap */
+  anchor: string | null;
+}
+
+/**
+ * Get every date between two dates (inclusive, either order) as they appear
+ * in an ordered list of dates
+ */
+export function getDatesBetween(
+  orderedDates: string[],
+  from: string,
+  to: string
+): string[] {
+  const fromIndex = orderedDates.indexOf(from);
+  const toIndex = orderedDates.indexOf(to);
+
+  // Dates outside the list cannot be spanned; keep just the two ends
+  if (fromIndex === -1 || toIndex === -1) {
+    return from === to ? [from] : [from, to];
+  }
+
+  return orderedDates.slice(
+    Math.min(fromIndex, toIndex),
+    Math.max(fromIndex, toIndex) + 1
+  );
+}
+
+/**
+ * Apply a press on a date to a selection
+ */
+export function updateSelection(
+  state: SelectionState,
+  date: string,
+  mode: SelectionMode,
+  orderedDates: string[]
+): SelectionState {
+  const { selectedDates, anchor } = state;
+
+  switch (mode) {
+    case 'single':
+      // Pressing the selected date clears it
+      return {
+        selectedDates:
+          selectedDates.length === 1 && selectedDates[0] === date ? [] : [date],
+        anchor: null,
+      };
+    case 'multiple':
+      return {
+        selectedDates: selectedDates.includes(date)
+          ? selectedDates.filter((selected) => selected !== date)
+          : [...selectedDates, date],
+        anchor: null,
+      };
+    case 'range':
+      // The first tap starts a range, the second one completes it
+      return anchor === null
+        ? { selectedDates: [date], anchor: date }
+        : {
+            selectedDates: getDatesBetween(orderedDates, anchor, date),
+            anchor: null,
+          };
+    default:
+      return state;
+  }
+}
+
+/**
+ * Get the grid column and row under a point in grid pixels
+ */
+export function getGridPosition(
+  point: { x: number; y: number },
+  cellSize: number,
+  cellSpacing: number
+): { column: number; row: number } {
+  const step = cellSize + cellSpacing;
+  return {
+    column: Math.floor(point.x / step),
+    row: Math.floor(point.y / step),
+  };
+}
+
+/**
+ * Get the grid columns and rows covered by a brush dragged between two
+ * points in grid pixels
+ */
+export function calculateBrushBounds(
+  start: { x: number; y: number },
+  end: { x: number; y: number },
+  cellSize: number,
+  cellSpacing: number
+): GridBounds {
+  const first = getGridPosition(
+    { x: Math.min(start.x, end.x), y: Math.min(start.y, end.y) },
+    cellSize,
+    cellSpacing
+  );
+  const last = getGridPosition(
+    { x: Math.max(start.x, end.x), y: Math.max(start.y, end.y) },
+    cellSize,
+    cellSpacing
+  );
+
+  return {
+    minColumn: first.column,
+    maxColumn: last.column,
+    minRow: first.row,
+    maxRow: last.row,
+  };
+}
@@ -36,18 +36,38 @@ export const DEFAULT_VIRTUALIZATION_CONFIG: VirtualizationConfig = {
  * Viewport information for virtualization
  */
 export interface Viewport {
-  /** Viewport width */
+  /** Viewport width (screen pixels) */
   width: number;
-  /** Viewport height */
+  /** Viewport height (screen pixels) */
   height: number;
-  /** Scroll offset X */
+  /** Scroll offset X (content pixels) */
   offsetX: number;
-  /** Scroll offset Y */
+  /** Scroll offset Y (content pixels) */
   offsetY: number;
   /** Scale factor for zoom */
   scale: number;
 }
 
+/**
+ * Inclusive range of grid columns and rows to render
+ */
+export interface GridBounds {
+  minColumn: number;
+  maxColumn: number;
+  minRow: number;
+  maxRow: number;
+}
+
+/**
+ * Bounds that include every cell
+ */
+const UNBOUNDED_GRID: GridBounds = {
+  minColumn: -Infinity,
+  maxColumn: Infinity,
+  minRow: -Infinity,
+  maxRow: Infinity,
+};
+
 /**
  * Visible cell range
  */
@@ -58,24 +78,20 @@ export interface VisibleRange {
   endIndex: number;
   /** Visible cells */
   visibleCells: ProcessedCellData[];
+  /** Indices of the visible cells */
+  visibleIndices: number[];
+  /** Grid columns and rows covered by the viewport and its buffer */
+  bounds: GridBounds;
 }
 
 /**
- * Calculate visible cell range based on viewport
+ * Calculate the grid columns and rows covered by a viewport plus a buffer
+ * of bufferSize cells on every side
  */
-export function calculateVisibleRange(
-  cells: ProcessedCellData[],
+export function calculateVisibleGridBounds(
   viewport: Viewport,
   config: VirtualizationConfig
-): VisibleRange {
-  if (!config.enabled || cells.length < config.threshold) {
-    return {
-      startIndex: 0,
-      endIndex: cells.length - 1,
-      visibleCells: cells,
-    };
-  }
-
+): GridBounds {
   const cellWidth = config.cellSize + config.cellSpacing;
   const cellHeight = config.cellSize + config.cellSpacing;
 
@@ -85,37 +101,115 @@ export function calculateVisibleRange(
     viewport.offsetX - config.bufferSize * cellWidth
   );
   const visibleRight =
-    viewport.offsetX + viewport.width + config.bufferSize * cellWidth;
+    viewport.offsetX +
+    viewport.width / viewport.scale +
+    config.bufferSize * cellWidth;
   const visibleTop = Math.max(
     0,
     viewport.offsetY - config.bufferSize * cellHeight
   );
   const visibleBottom =
-    viewport.offsetY + viewport.height + config.bufferSize * cellHeight;
-
-  // Filter cells within visible bounds
-  const visibleCells = cells.filter((cell) => {
-    const cellLeft = cell.x * cellWidth;
-    const cellRight = cellLeft + cellWidth;
-    const cellTop = cell.y * cellHeight;
-    const cellBottom = cellTop + cellHeight;
-
-    return (
-      cellRight >= visibleLeft &&
-      cellLeft <= visibleRight &&
-      cellBottom >= visibleTop &&
-      cellTop <= visibleBottom
-    );
-  });
+    viewport.offsetY +
+    viewport.height / viewport.scale +
+    config.bufferSize * cellHeight;
+
+  // A cell is visible when any part of its slot overlaps the bounds
+  return {
+    minColumn: Math.ceil(visibleLeft / cellWidth - 1),
+    maxColumn: Math.floor(visibleRight / cellWidth),
+    minRow: Math.ceil(visibleTop / cellHeight - 1),
+    maxRow: Math.floor(visibleBottom / cellHeight),
+  };
+}
+
+/**
+ * Grid-bucket spatial index over cell positions, so viewport queries cost
+ * time proportional to the grid slots they cover rather than all cells
+ */
+export class SpatialIndex {
+  /** Cell indices bucketed by column, then row */
+  private buckets: Array<Array<number[] | undefined> | undefined> = [];
+  private minColumn = Infinity;
+  private maxColumn = -Infinity;
+  private minRow = Infinity;
+  private maxRow = -Infinity;
+
+  constructor(cells: ProcessedCellData[]) {
+    cells.forEach((cell) => {
+      this.minColumn = Math.min(this.minColumn, cell.x);
+      this.maxColumn = Math.max(this.maxColumn, cell.x);
+      this.minRow = Math.min(this.minRow, cell.y);
+      this.maxRow = Math.max(this.maxRow, cell.y);
+    });
+
+    cells.forEach((cell, index) => {
+      const column = (this.buckets[cell.x - this.minColumn] ??= []);
+      (column[cell.y - this.minRow] ??= []).push(index);
+    });
+  }
 
-  // Find start and end indices
-  const startIndex = cells.findIndex((cell) => visibleCells.includes(cell));
-  const endIndex = startIndex + visibleCells.length - 1;
+  /**
+   * Get the indices of the cells within grid bounds, in ascending order
+   */
+  query(bounds: GridBounds): number[] {
+    const firstColumn = Math.max(bounds.minColumn, this.minColumn);
+    const lastColumn = Math.min(bounds.maxColumn, this.maxColumn);
+    const firstRow = Math.max(bounds.minRow, this.minRow);
+    const lastRow = Math.min(bounds.maxRow, this.maxRow);
+    const indices: number[] = [];
+
+    for (let x = firstColumn; x <= lastColumn; x++) {
+      for (let y = firstRow; y <= lastRow; y++) {
+        const bucket = this.getBucket(x, y);
+        if (bucket) {
+          indices.push(...bucket);
+        }
+      }
+    }
+
+    return indices.sort((a, b) => a - b);
+  }
+
+  /**
+   * Get the indices of the cells in one grid slot
+   */
+  private getBucket(x: number, y: number): number[] | undefined {
+    return this.buckets[x - this.minColumn]?.[y - this.minRow];
+  }
+}
+
+/**
+ * Calculate visible cell range based on viewport. Pass a spatial index
+ * built once for the cells to avoid rebuilding it on every call.
+ */
+export function calculateVisibleRange(
+  cells: ProcessedCellData[],
+  viewport: Viewport,
+  config: VirtualizationConfig,
+  spatialIndex?: SpatialIndex
+): VisibleRange {
+  if (!config.enabled || cells.length < config.threshold) {
+    return {
+      startIndex: 0,
+      endIndex: cells.length - 1,
+      visibleCells: cells,
+      visibleIndices: cells.map((_, index) => index),
+      bounds: UNBOUNDED_GRID,
+    };
+  }
+
+  const bounds = calculateVisibleGridBounds(viewport, config);
+  const visibleIndices = (spatialIndex ?? new SpatialIndex(cells)).query(
+    bounds
+  );
+  const visibleCells = visibleIndices.map((index) => cells[index]!);
 
   return {
-    startIndex: Math.max(0, startIndex),
-    endIndex: Math.min(cells.length - 1, endIndex),
+    startIndex: visibleIndices[0] ?? 0,
+    endIndex: visibleIndices[visibleIndices.length - 1] ?? -1,
     visibleCells,
+    visibleIndices,
+    bounds,
   };
 }
 